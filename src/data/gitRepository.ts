@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// 直接读取本地 .git 目录中的提交和文件内容，不调用 git 命令，也不访问网络。
+// 支持松散对象和打包对象（包括增量对象），以及工作树（.git 为指向实际目录的文件）
+
+// 本地仓库
+export interface GitRepository {
+	// 工作区根目录
+	root: string;
+	// 当前工作树的 .git 目录，保存 HEAD
+	gitDir: string;
+	// 共享的 .git 目录，保存对象、引用和配置；普通仓库与 gitDir 相同
+	commonDir: string;
+}
+
+type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+interface GitObject {
+	type: GitObjectType;
+	data: Buffer;
+}
+
+// 打包对象的类型编号
+const PACK_OBJECT_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+// 符号引用的最大嵌套层数，防止循环引用
+const MAX_SYMBOLIC_REF_DEPTH = 5;
+
+async function readText(filePath: string): Promise<string | undefined> {
+	try {
+		return await fs.promises.readFile(filePath, 'utf8');
+	} catch {
+		return undefined;
+	}
+}
+
+// 文件所在的仓库：向上查找 .git 目录，或工作树中指向实际目录的 .git 文件
+export async function findGitRepository(filePath: string): Promise<GitRepository | undefined> {
+	let dir = path.dirname(filePath);
+	for (;;) {
+		const dotGit = path.join(dir, '.git');
+		const stat = await fs.promises.stat(dotGit).catch(() => undefined);
+		let gitDir: string | undefined;
+		if (stat?.isDirectory()) {
+			gitDir = dotGit;
+		} else if (stat?.isFile()) {
+			const match = /^gitdir:\s*(.+)$/m.exec(await readText(dotGit) || '');
+			gitDir = match ? path.resolve(dir, match[1].trim()) : undefined;
+		}
+		if (gitDir) {
+			const commonDir = (await readText(path.join(gitDir, 'commondir')))?.trim();
+			return { root: dir, gitDir, commonDir: commonDir ? path.resolve(gitDir, commonDir) : gitDir };
+		}
+		const parent = path.dirname(dir);
+		if (parent === dir) {
+			return undefined;
+		}
+		dir = parent;
+	}
+}
+
+// 文件在仓库中的路径，使用 / 分隔
+export function gitPathOf(repository: GitRepository, filePath: string): string {
+	return path.relative(repository.root, filePath).split(path.sep).join('/');
+}
+
+// 文件当前所在的提交：仓库、HEAD 和文件在仓库中的路径；文件不在仓库中或仓库还没有提交时返回 undefined
+export async function currentRevision(filePath: string): Promise<{ repository: GitRepository; commit: string; gitPath: string } | undefined> {
+	const repository = await findGitRepository(filePath);
+	const commit = repository && await readHead(repository);
+	return repository && commit ? { repository, commit, gitPath: gitPathOf(repository, filePath) } : undefined;
+}
+
+// 当前 HEAD 指向的提交；新建的仓库还没有提交时返回 undefined
+export async function readHead(repository: GitRepository): Promise<string | undefined> {
+	let content = (await readText(path.join(repository.gitDir, 'HEAD')))?.trim();
+	for (let depth = 0; content && depth < MAX_SYMBOLIC_REF_DEPTH; depth++) {
+		const symbolic = /^ref:\s*(.+)$/.exec(content);
+		if (!symbolic) {
+			return /^[0-9a-f]{40}$/.test(content) ? content : undefined;
+		}
+		content = await readRef(repository, symbolic[1].trim());
+	}
+	return undefined;
+}
+
+// 读取引用的内容：先查松散引用，再查 packed-refs
+async function readRef(repository: GitRepository, name: string): Promise<string | undefined> {
+	for (const dir of [repository.gitDir, repository.commonDir]) {
+		const loose = (await readText(path.join(dir, name)))?.trim();
+		if (loose) {
+			return loose;
+		}
+	}
+	const packed = await readText(path.join(repository.commonDir, 'packed-refs')) || '';
+	for (const line of packed.split('\n')) {
+		const [sha, ref] = line.trim().split(' ');
+		if (ref === name) {
+			return sha;
+		}
+	}
+	return undefined;
+}
+
+// 远程仓库的地址：优先使用 origin，否则取配置中的第一个远程仓库
+export async function readRemoteUrl(repository: GitRepository): Promise<string | undefined> {
+	const config = await readText(path.join(repository.commonDir, 'config')) || '';
+	const remotes = new Map<string, string>();
+	let remote: string | undefined;
+	for (const line of config.split(/\r?\n/)) {
+		const section = /^\s*\[\s*remote\s+"([^"]+)"\s*\]/.exec(line);
+		if (section) {
+			remote = section[1];
+			continue;
+		}
+		if (/^\s*\[/.test(line)) {
+			remote = undefined;
+			continue;
+		}
+		const url = /^\s*url\s*=\s*(.+?)\s*$/.exec(line);
+		if (remote && url && !remotes.has(remote)) {
+			remotes.set(remote, url[1]);
+		}
+	}
+	return remotes.get('origin') ?? remotes.values().next().value;
+}
+
+// 提交中某个文件的内容，提交或文件不存在时返回 undefined
+export async function readFileAtCommit(repository: GitRepository, commit: string, gitPath: string): Promise<Buffer | undefined> {
+	const commitObject = await readObject(repository, commit);
+	const tree = commitObject?.type === 'commit' && /^tree ([0-9a-f]{40})/.exec(commitObject.data.toString('utf8'));
+	if (!tree) {
+		return undefined;
+	}
+	let sha = tree[1];
+	for (const name of gitPath.split('/').filter(Boolean)) {
+		const object = await readObject(repository, sha);
+		const entry = object?.type === 'tree' ? findTreeEntry(object.data, name) : undefined;
+		if (!entry) {
+			return undefined;
+		}
+		sha = entry;
+	}
+	const blob = await readObject(repository, sha);
+	return blob?.type === 'blob' ? blob.data : undefined;
+}
+
+// 树对象的每一项为“<模式> <名称>\0<20字节的对象id>”
+function findTreeEntry(tree: Buffer, name: string): string | undefined {
+	let offset = 0;
+	while (offset < tree.length) {
+		const space = tree.indexOf(0x20, offset);
+		const nul = tree.indexOf(0, space);
+		if (space < 0 || nul < 0) {
+			return undefined;
+		}
+		if (tree.toString('utf8', space + 1, nul) === name) {
+			return tree.toString('hex', nul + 1, nul + 21);
+		}
+		offset = nul + 21;
+	}
+	return undefined;
+}
+
+// 读取对象：先查松散对象，再查打包对象
+async function readObject(repository: GitRepository, sha: string): Promise<GitObject | undefined> {
+	const objectsDir = path.join(repository.commonDir, 'objects');
+	const loose = await fs.promises.readFile(path.join(objectsDir, sha.substring(0, 2), sha.substring(2))).catch(() => undefined);
+	if (loose) {
+		const raw = zlib.inflateSync(loose);
+		const nul = raw.indexOf(0);
+		const type = raw.toString('utf8', 0, raw.indexOf(0x20)) as GitObjectType;
+		return { type, data: raw.subarray(nul + 1) };
+	}
+
+	const packDir = path.join(objectsDir, 'pack');
+	const indexes = (await fs.promises.readdir(packDir).catch(() => [] as string[])).filter(name => name.endsWith('.idx'));
+	for (const name of indexes) {
+		const index = await loadPackIndex(path.join(packDir, name));
+		const offset = index && findPackOffset(index, sha);
+		if (offset !== undefined) {
+			return readPackObject(repository, path.join(packDir, name.replace(/\.idx$/, '.pack')), offset);
+		}
+	}
+	return undefined;
+}
+
+// 包索引（第2版）：按对象id排序，可二分查找对象在包文件中的位置
+interface PackIndex {
+	count: number;
+	fanout: number[];
+	data: Buffer;
+}
+
+// 包文件以内容的哈希命名，写入后不再变化，可以缓存索引
+const packIndexCache = new Map<string, PackIndex | undefined>();
+
+async function loadPackIndex(indexPath: string): Promise<PackIndex | undefined> {
+	if (!packIndexCache.has(indexPath)) {
+		const data = await fs.promises.readFile(indexPath).catch(() => undefined);
+		// 只支持第2版索引（\377tOc 开头），第1版只有很旧的 git 会生成
+		const valid = data && data.readUInt32BE(0) === 0xff744f63 && data.readUInt32BE(4) === 2;
+		const fanout = valid ? Array.from({ length: 256 }, (_, i) => data.readUInt32BE(8 + i * 4)) : [];
+		packIndexCache.set(indexPath, valid ? { count: fanout[255], fanout, data } : undefined);
+	}
+	return packIndexCache.get(indexPath);
+}
+
+function findPackOffset(index: PackIndex, sha: string): number | undefined {
+	const target = Buffer.from(sha, 'hex');
+	const namesStart = 8 + 256 * 4;
+	let low = target[0] === 0 ? 0 : index.fanout[target[0] - 1];
+	let high = index.fanout[target[0]];
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		const cmp = target.compare(index.data, namesStart + mid * 20, namesStart + mid * 20 + 20);
+		if (cmp === 0) {
+			// 对象id之后依次是 CRC 表、4字节偏移表和大于 2GB 时使用的8字节偏移表
+			const offsetsStart = namesStart + index.count * 24;
+			const offset = index.data.readUInt32BE(offsetsStart + mid * 4);
+			if (offset & 0x80000000) {
+				const largeStart = offsetsStart + index.count * 4;
+				return Number(index.data.readBigUInt64BE(largeStart + (offset & 0x7fffffff) * 8));
+			}
+			return offset;
+		}
+		if (cmp < 0) {
+			high = mid;
+		} else {
+			low = mid + 1;
+		}
+	}
+	return undefined;
+}
+
+// 读取包文件中指定位置的对象，增量对象先读取基础对象再应用增量
+async function readPackObject(repository: GitRepository, packPath: string, offset: number): Promise<GitObject | undefined> {
+	const handle = await fs.promises.open(packPath, 'r');
+	try {
+		const read = async (position: number, length: number): Promise<Buffer> => {
+			const buffer = Buffer.alloc(length);
+			const { bytesRead } = await handle.read(buffer, 0, length, position);
+			return buffer.subarray(0, bytesRead);
+		};
+
+		// 对象头：类型和解压后的大小，变长编码；增量对象之后还有基础对象的位置或id，最长不超过32字节
+		const header = await read(offset, 32);
+		let byte = header[0];
+		const type = (byte >> 4) & 7;
+		let size = byte & 15;
+		let shift = 4;
+		let pos = 1;
+		while (byte & 0x80) {
+			byte = header[pos++];
+			size += (byte & 0x7f) * 2 ** shift;
+			shift += 7;
+		}
+
+		// 基础对象在当前对象解压成功后再读取，解压失败时不会留下未处理的读取
+		let readBase: (() => Promise<GitObject | undefined>) | undefined;
+		if (type === OFS_DELTA) {
+			byte = header[pos++];
+			let distance = byte & 0x7f;
+			while (byte & 0x80) {
+				byte = header[pos++];
+				distance = (distance + 1) * 128 + (byte & 0x7f);
+			}
+			const baseOffset = offset - distance;
+			readBase = () => readPackObject(repository, packPath, baseOffset);
+		} else if (type === REF_DELTA) {
+			const baseSha = header.toString('hex', pos, pos + 20);
+			readBase = () => readObject(repository, baseSha);
+			pos += 20;
+		} else if (!PACK_OBJECT_TYPES[type]) {
+			return undefined;
+		}
+
+		// 压缩后的长度未记录，先按解压后的大小读取，数据不完整时加倍重试
+		let length = size + 64;
+		let data: Buffer;
+		for (;;) {
+			const chunk = await read(offset + pos, length);
+			try {
+				data = zlib.inflateSync(chunk);
+				break;
+			} catch (error) {
+				if (chunk.length < length) {
+					throw error;
+				}
+				length *= 2;
+			}
+		}
+
+		if (!readBase) {
+			return { type: PACK_OBJECT_TYPES[type], data };
+		}
+		const baseObject = await readBase();
+		return baseObject && { type: baseObject.type, data: applyDelta(baseObject.data, data) };
+	} finally {
+		await handle.close();
+	}
+}
+
+// 增量数据：基础对象和结果的大小，之后是“从基础对象复制”和“插入新数据”两种指令
+function applyDelta(base: Buffer, delta: Buffer): Buffer {
+	let pos = 0;
+	const readSize = (): number => {
+		let value = 0;
+		let shift = 0;
+		let byte: number;
+		do {
+			byte = delta[pos++];
+			value += (byte & 0x7f) * 2 ** shift;
+			shift += 7;
+		} while (byte & 0x80);
+		return value;
+	};
+	readSize();
+	const result = Buffer.alloc(readSize());
+	let out = 0;
+	while (pos < delta.length) {
+		const op = delta[pos++];
+		if (op & 0x80) {
+			let copyOffset = 0;
+			let copySize = 0;
+			for (let i = 0; i < 4; i++) {
+				if (op & (1 << i)) {
+					copyOffset += delta[pos++] * 2 ** (8 * i);
+				}
+			}
+			for (let i = 0; i < 3; i++) {
+				if (op & (1 << (4 + i))) {
+					copySize += delta[pos++] << (8 * i);
+				}
+			}
+			out += base.copy(result, out, copyOffset, copyOffset + (copySize || 0x10000));
+		} else if (op > 0) {
+			out += delta.copy(result, out, pos, pos + op);
+			pos += op;
+		}
+	}
+	return result;
+}
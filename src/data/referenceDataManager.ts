@@ -0,0 +1,934 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ReferenceBoard, ReferenceItem, ReferenceStoreData, ReferenceStoreKind, TrashEntry } from '../types/referenct';
+import { DEFAULT_RELOCATION_THRESHOLD } from '../search/relocate';
+import { referenceUri } from './referenceUri';
+import { mergeStoreData } from './storeMerge';
+import { emptyStore, loadStoreContent, serializeStore } from './storeSchema';
+import { rebasePaths, relativizePaths, WorkspaceRoot } from './referenceTransfer';
+
+// 配置项
+export const CONFIG_SECTION = 'fileRefTags';
+const DEFAULT_SHARED_FILE = '.vscode/file-refs.json';
+
+// 获取片段重定位的相似度阈值
+export function getRelocationThreshold(): number {
+	return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('relocationThreshold', DEFAULT_RELOCATION_THRESHOLD);
+}
+
+// 各存储位置的显示名称
+export const STORE_LABELS: Record<ReferenceStoreKind, string> = {
+	global: '全局',
+	workspace: '工作区',
+	shared: '团队共享'
+};
+
+// 默认看板：没有 boardId 的引用项都属于它
+export const DEFAULT_BOARD_ID = 'default';
+const DEFAULT_BOARD_NAME = '默认看板';
+// 按存储位置记住当前看板
+const ACTIVE_BOARDS_KEY = 'fileRefTags.activeBoards';
+
+// 撤销历史最多保留的步数
+const MAX_HISTORY = 50;
+// 回收站默认保留天数
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 一步可撤销的操作：操作名称和操作前的数据
+interface HistoryEntry {
+	label: string;
+	data: ReferenceStoreData;
+}
+
+// 生成引用项或看板的id
+function generateId(prefix: string): string {
+	return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// 判断路径是否为目标路径本身或位于目标文件夹之下
+function isSameOrInside(filePath: string, target: string): boolean {
+	return filePath === target || filePath.startsWith(target.endsWith(path.sep) ? target : target + path.sep);
+}
+
+// 引用项文件所在的工作区文件夹名称，不在任何工作区文件夹中时返回 undefined
+function workspaceFolderOf(reference: Pick<ReferenceItem, 'filePath' | 'uri'>): string | undefined {
+	const uri = referenceUri(reference);
+	return uri ? vscode.workspace.getWorkspaceFolder(uri)?.name : undefined;
+}
+
+// 本地文件的路径；文件操作事件只处理本地文件，记录了 URI 的引用项不参与
+function localPath(reference: ReferenceItem): string | undefined {
+	return reference.uri ? undefined : reference.filePath;
+}
+
+// 存储文件中已确认有效的数据，用作合并的基准；内容无法加载时为空
+function parseStore(content: string): ReferenceStoreData {
+	try {
+		return loadStoreContent(content).data;
+	} catch {
+		return emptyStore();
+	}
+}
+
+// 本地的工作区文件夹
+export function workspaceRoots(): WorkspaceRoot[] {
+	return (vscode.workspace.workspaceFolders || [])
+		.filter(folder => folder.uri.scheme === 'file')
+		.map(folder => ({ name: folder.name, path: folder.uri.fsPath }));
+}
+
+// 对存储数据中的所有引用项（包括回收站中的）做路径转换
+function mapStorePaths(data: ReferenceStoreData, convert: (references: ReferenceItem[]) => ReferenceItem[]): ReferenceStoreData {
+	return {
+		boards: data.boards,
+		references: convert(data.references),
+		trash: data.trash.map(entry => ({ ...entry, items: convert(entry.items) }))
+	};
+}
+
+// 无效项说明在提示中最多列出的条数
+const MAX_REPORTED_PROBLEMS = 3;
+
+// 跳过无效项的提示，只列出前几项的说明
+export function describeSkippedProblems(problems: string[]): string {
+	const more = problems.length > MAX_REPORTED_PROBLEMS ? `等 ${problems.length} 项` : '';
+	return `有无效的项已被跳过：${problems.slice(0, MAX_REPORTED_PROBLEMS).join('；')}${more}`;
+}
+
+// 数据管理类
+export class ReferenceDataManager {
+	// 当前存储位置中所有看板的引用项
+	private references: ReferenceItem[] = [];
+	private boards: ReferenceBoard[] = [];
+	private trash: TrashEntry[] = [];
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+	private activeBoardId = DEFAULT_BOARD_ID;
+	private storeKind: ReferenceStoreKind = 'global';
+	private storagePath: string;
+	// 上次读取或写入的存储文件内容及其数据，用于识别其他窗口或手动修改，并作为合并的基准
+	private storeContent: string | undefined;
+	private storeBase: ReferenceStoreData = emptyStore();
+	private storeWatcher: vscode.Disposable[] = [];
+	// 保存失败的提示正在显示，避免连续修改时重复弹出
+	private saveErrorShown = false;
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	// 引用数据变化（修改、切换存储位置）时触发
+	readonly onDidChange = this._onDidChange.event;
+	private readonly _onDidChangeExternally = new vscode.EventEmitter<void>();
+	// 存储文件被其他窗口或手动修改，合并到当前数据后触发
+	readonly onDidChangeExternally = this._onDidChangeExternally.event;
+
+	constructor(private readonly context: vscode.ExtensionContext) {
+		this.storagePath = this.getStorePath('global')!;
+		// 根据配置选择存储位置并加载数据
+		this.reloadFromConfiguration();
+	}
+
+	// 根据配置重新选择存储位置并加载数据
+	reloadFromConfiguration(): void {
+		const configured = vscode.workspace.getConfiguration(CONFIG_SECTION).get<ReferenceStoreKind>('storage', 'workspace');
+		// 没有打开工作区时，工作区和共享存储都不可用，退回全局存储
+		this.storeKind = this.getStorePath(configured) ? configured : 'global';
+		this.storagePath = this.getStorePath(this.storeKind)!;
+		const loaded = this.readStore(this.storagePath);
+		const data = loaded?.data || emptyStore();
+		this.storeContent = loaded?.content;
+		this.storeBase = loaded?.content ? this.parseBase(this.storagePath, loaded.content) : emptyStore();
+		this.watchStore();
+		this.references = data.references;
+		this.boards = data.boards;
+		this.trash = data.trash;
+		// 撤销历史只对应当前存储位置
+		this.undoStack = [];
+		this.redoStack = [];
+		this.purgeTrash();
+		const activeBoards = this.context.workspaceState.get<Partial<Record<ReferenceStoreKind, string>>>(ACTIVE_BOARDS_KEY, {});
+		this.activeBoardId = this.findBoard(activeBoards[this.storeKind]) ? activeBoards[this.storeKind]! : DEFAULT_BOARD_ID;
+		this._onDidChange.fire();
+	}
+
+	// 获取指定存储位置的文件路径，不可用时返回undefined
+	getStorePath(kind: ReferenceStoreKind): string | undefined {
+		switch (kind) {
+			case 'global':
+				return path.join(this.context.globalStorageUri.fsPath, 'references.json');
+			case 'workspace':
+				return this.context.storageUri
+					? path.join(this.context.storageUri.fsPath, 'references.json')
+					: undefined;
+			case 'shared': {
+				const folder = vscode.workspace.workspaceFolders?.[0];
+				if (!folder) {
+					return undefined;
+				}
+				const relativePath = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('sharedFilePath') || DEFAULT_SHARED_FILE;
+				return path.resolve(folder.uri.fsPath, relativePath);
+			}
+		}
+	}
+
+	// 获取当前可用的存储位置
+	getAvailableStores(): ReferenceStoreKind[] {
+		return (['global', 'workspace', 'shared'] as ReferenceStoreKind[]).filter(kind => this.getStorePath(kind));
+	}
+
+	// 获取当前使用的存储位置
+	getStoreKind(): ReferenceStoreKind {
+		return this.storeKind;
+	}
+
+	// 读取指定存储文件，文件不存在时返回空数据；无法读取或内容无法解析时返回 undefined
+	private readStore(storagePath: string): { data: ReferenceStoreData; content?: string } | undefined {
+		let content: string;
+		try {
+			content = fs.readFileSync(storagePath, 'utf8');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return { data: emptyStore() };
+			}
+			console.error('Failed to load references:', error);
+			vscode.window.showErrorMessage(`无法读取引用存储文件 ${storagePath}：${(error as Error).message}`);
+			return undefined;
+		}
+		const data = this.decodeStore(storagePath, content);
+		return data && { data, content };
+	}
+
+	// 团队共享的存储文件会提交到仓库，每个人的检出位置不同：
+	// 写入时工作区中的文件改为相对于工作区文件夹的路径，读取时按本地的工作区文件夹还原为绝对路径
+	private isSharedStore(storagePath: string): boolean {
+		return storagePath === this.getStorePath('shared');
+	}
+
+	private toStored(storagePath: string, data: ReferenceStoreData): ReferenceStoreData {
+		return this.isSharedStore(storagePath) ? mapStorePaths(data, references => relativizePaths(references, workspaceRoots())) : data;
+	}
+
+	private fromStored(storagePath: string, data: ReferenceStoreData): ReferenceStoreData {
+		return this.isSharedStore(storagePath) ? mapStorePaths(data, references => rebasePaths(references, workspaceRoots())) : data;
+	}
+
+	// 合并的基准：存储文件中已确认有效的数据，路径与内存中的数据一致
+	private parseBase(storagePath: string, content: string): ReferenceStoreData {
+		return this.fromStored(storagePath, parseStore(content));
+	}
+
+	// 存储文件的内容
+	private serialize(storagePath: string, data: ReferenceStoreData): string {
+		return serializeStore(this.toStored(storagePath, data));
+	}
+
+	// 解析存储文件的内容：旧版本的格式自动迁移，无效的项跳过并提示；整个文件无法加载时返回 undefined。
+	// 有项被跳过或文件无法加载时先备份原文件，之后的保存不会丢失其中的内容
+	private decodeStore(storagePath: string, content: string): ReferenceStoreData | undefined {
+		try {
+			const { data, problems } = loadStoreContent(content);
+			if (problems.length > 0) {
+				console.error('Invalid references skipped:', problems);
+				this.backupStoreFile(storagePath, content, describeSkippedProblems(problems));
+			}
+			return this.fromStored(storagePath, data);
+		} catch (error) {
+			console.error('Failed to parse references:', error);
+			this.backupStoreFile(storagePath, content, `无法加载：${(error as Error).message}`);
+			return undefined;
+		}
+	}
+
+	// 备份有问题的存储文件并提示原因；相同内容只备份和提示一次
+	private backupStoreFile(storagePath: string, content: string, reason: string): void {
+		const hash = crypto.createHash('sha1').update(content).digest('hex').substring(0, 8);
+		const backupPath = `${storagePath}.corrupt-${hash}.bak`;
+		if (fs.existsSync(backupPath)) {
+			return;
+		}
+		try {
+			fs.writeFileSync(backupPath, content, 'utf8');
+		} catch (error) {
+			console.error('Failed to back up references:', error);
+			vscode.window.showErrorMessage(`引用存储文件 ${storagePath} ${reason}。备份失败，请手动保存该文件`);
+			return;
+		}
+		vscode.window.showWarningMessage(`引用存储文件${reason}。原文件已备份为 ${path.basename(backupPath)}`, '打开备份').then(action => {
+			if (action === '打开备份') {
+				vscode.window.showTextDocument(vscode.Uri.file(backupPath));
+			}
+		});
+	}
+
+	// 写入指定存储文件：先写入同目录的临时文件再重命名替换，其他窗口不会读到写了一半的文件
+	private writeStore(storagePath: string, data: ReferenceStoreData): boolean {
+		const content = this.serialize(storagePath, data);
+		const tempPath = `${storagePath}.${process.pid}-${Date.now()}.tmp`;
+		try {
+			// 确保存储目录存在
+			fs.mkdirSync(path.dirname(storagePath), { recursive: true });
+			fs.writeFileSync(tempPath, content, 'utf8');
+			fs.renameSync(tempPath, storagePath);
+		} catch (error) {
+			console.error('Failed to save references:', error);
+			fs.rm(tempPath, { force: true }, () => undefined);
+			this.showSaveError(storagePath, error as Error);
+			return false;
+		}
+		if (storagePath === this.storagePath) {
+			this.storeContent = content;
+			this.storeBase = this.parseBase(storagePath, content);
+		}
+		return true;
+	}
+
+	// 保存失败时提示，修改仍保留在当前窗口中，可以重试
+	private showSaveError(storagePath: string, error: Error): void {
+		if (this.saveErrorShown) {
+			return;
+		}
+		this.saveErrorShown = true;
+		vscode.window.showErrorMessage(`保存引用失败（${storagePath}）：${error.message}。修改只保留在当前窗口中`, '重试').then(action => {
+			this.saveErrorShown = false;
+			if (action === '重试' && this.getStorePath(this.storeKind) === storagePath) {
+				this.saveReferences();
+			}
+		});
+	}
+
+	private getStoreData(): ReferenceStoreData {
+		return { boards: this.boards, references: this.references, trash: this.trash };
+	}
+
+	// 保存引用数据，写入前先合并其他窗口写入的修改
+	private saveReferences(): void {
+		this.mergeExternalChanges();
+		this.writeStore(this.storagePath, this.getStoreData());
+		this._onDidChange.fire();
+	}
+
+	// 监听当前存储文件，其他窗口或手动修改后重新加载
+	private watchStore(): void {
+		this.storeWatcher.forEach(d => d.dispose());
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.storagePath)), path.basename(this.storagePath))
+		);
+		this.storeWatcher = [
+			watcher,
+			watcher.onDidChange(() => this.reloadExternalChanges()),
+			watcher.onDidCreate(() => this.reloadExternalChanges())
+		];
+	}
+
+	// 把存储文件中其他窗口或手动做的修改合并到当前数据，文件未变化时返回 false
+	private mergeExternalChanges(): boolean {
+		let content: string;
+		try {
+			content = fs.readFileSync(this.storagePath, 'utf8');
+		} catch {
+			return false;
+		}
+		if (content === this.storeContent) {
+			return false;
+		}
+		const external = this.decodeStore(this.storagePath, content);
+		if (!external) {
+			return false;
+		}
+		const merged = mergeStoreData(this.storeBase, this.getStoreData(), external);
+		this.boards = merged.boards;
+		this.references = merged.references;
+		this.trash = merged.trash;
+		this.storeContent = content;
+		this.storeBase = this.parseBase(this.storagePath, content);
+		// 撤销历史中的数据不包含合并进来的修改，撤销会覆盖其他窗口的修改，因此清空撤销历史
+		this.undoStack = [];
+		this.redoStack = [];
+		if (!this.findBoard(this.activeBoardId)) {
+			this.activeBoardId = DEFAULT_BOARD_ID;
+		}
+		return true;
+	}
+
+	// 存储文件变化后合并修改并通知所有视图；当前窗口还有未写入的修改（如上次保存失败）时写回合并结果
+	private reloadExternalChanges(): void {
+		if (!this.mergeExternalChanges()) {
+			return;
+		}
+		if (this.serialize(this.storagePath, this.getStoreData()) !== this.storeContent) {
+			this.writeStore(this.storagePath, this.getStoreData());
+		}
+		this._onDidChange.fire();
+		this._onDidChangeExternally.fire();
+	}
+
+	// 在修改数据前记录一步可撤销的操作
+	private recordHistory(label: string): void {
+		this.undoStack.push({ label, data: JSON.parse(JSON.stringify(this.getStoreData())) });
+		if (this.undoStack.length > MAX_HISTORY) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+	}
+
+	private restoreData(data: ReferenceStoreData): void {
+		this.boards = data.boards;
+		this.references = data.references;
+		this.trash = data.trash;
+		if (!this.findBoard(this.activeBoardId)) {
+			this.switchBoard(DEFAULT_BOARD_ID);
+		}
+		this.saveReferences();
+	}
+
+	// 撤销上一步操作，返回被撤销的操作名称
+	undo(): string | undefined {
+		const entry = this.undoStack.pop();
+		if (!entry) {
+			return undefined;
+		}
+		this.redoStack.push({ label: entry.label, data: JSON.parse(JSON.stringify(this.getStoreData())) });
+		this.restoreData(entry.data);
+		return entry.label;
+	}
+
+	// 重做被撤销的操作，返回重做的操作名称
+	redo(): string | undefined {
+		const entry = this.redoStack.pop();
+		if (!entry) {
+			return undefined;
+		}
+		this.undoStack.push({ label: entry.label, data: JSON.parse(JSON.stringify(this.getStoreData())) });
+		this.restoreData(entry.data);
+		return entry.label;
+	}
+
+	// 获取回收站中的内容，最近删除的在前
+	getTrash(): TrashEntry[] {
+		return [...this.trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+	}
+
+	// 把引用项放入回收站
+	private moveToTrash(title: string, items: ReferenceItem[]): void {
+		if (items.length > 0) {
+			this.trash.push({ id: generateId('trash'), title, items, deletedAt: new Date().toISOString() });
+		}
+	}
+
+	// 从回收站恢复，原分组或看板已不存在时恢复到顶层或默认看板
+	restoreFromTrash(id: string): boolean {
+		const entry = this.trash.find(t => t.id === id);
+		if (!entry) {
+			return false;
+		}
+		this.recordHistory('恢复引用项');
+		const restoredIds = new Set(entry.items.map(r => r.id));
+		const boardIds = new Set(this.boards.map(b => b.id));
+		const groupIds = new Set(this.references.filter(r => r.type === 'group').map(r => r.id));
+		this.references = this.references.filter(r => !restoredIds.has(r.id));
+		this.references.push(...entry.items.map(r => ({
+			...r,
+			boardId: r.boardId && boardIds.has(r.boardId) ? r.boardId : undefined,
+			parentId: r.parentId && (restoredIds.has(r.parentId) || groupIds.has(r.parentId)) ? r.parentId : undefined
+		})));
+		this.trash = this.trash.filter(t => t.id !== id);
+		this.saveReferences();
+		return true;
+	}
+
+	// 永久删除回收站中的一项
+	deleteFromTrash(id: string): void {
+		if (this.trash.some(t => t.id === id)) {
+			this.recordHistory('永久删除');
+			this.trash = this.trash.filter(t => t.id !== id);
+			this.saveReferences();
+		}
+	}
+
+	// 清空回收站
+	emptyTrash(): void {
+		if (this.trash.length > 0) {
+			this.recordHistory('清空回收站');
+			this.trash = [];
+			this.saveReferences();
+		}
+	}
+
+	// 清除超过保留天数的回收站内容，保留天数为0时不自动清除
+	private purgeTrash(): void {
+		const days = vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('trash.retentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+		if (days <= 0) {
+			return;
+		}
+		const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+		const kept = this.trash.filter(t => t.deletedAt >= cutoff);
+		if (kept.length !== this.trash.length) {
+			this.trash = kept;
+			this.writeStore(this.storagePath, this.getStoreData());
+		}
+	}
+
+	// 添加引用项，未指定看板时添加到当前看板
+	addReference(reference: Omit<ReferenceItem, 'id' | 'createdAt' | 'updatedAt'>): ReferenceItem {
+		const now = new Date().toISOString();
+		const boardId = reference.boardId ?? this.activeBoardId;
+		const newReference: ReferenceItem = {
+			...reference,
+			boardId: boardId === DEFAULT_BOARD_ID ? undefined : boardId,
+			workspaceFolder: reference.workspaceFolder ?? workspaceFolderOf(reference),
+			id: generateId('ref'),
+			createdAt: now,
+			updatedAt: now
+		};
+		this.recordHistory(reference.type === 'group' ? '新建分组' : '添加引用项');
+		this.references.push(newReference);
+		this.saveReferences();
+		return newReference;
+	}
+
+	// 获取当前看板的所有引用项
+	getReferences(): ReferenceItem[] {
+		return this.references.filter(r => (r.boardId || DEFAULT_BOARD_ID) === this.activeBoardId);
+	}
+
+	// 按id查找引用项，不限于当前看板
+	getReference(id: string): ReferenceItem | undefined {
+		return this.references.find(r => r.id === id);
+	}
+
+	// 获取所有看板，默认看板在最前
+	getBoards(): ReferenceBoard[] {
+		const defaultBoard = this.boards.find(b => b.id === DEFAULT_BOARD_ID)
+			|| { id: DEFAULT_BOARD_ID, name: DEFAULT_BOARD_NAME, createdAt: '', updatedAt: '' };
+		return [defaultBoard, ...this.boards.filter(b => b.id !== DEFAULT_BOARD_ID)];
+	}
+
+	private findBoard(id: string | undefined): ReferenceBoard | undefined {
+		return this.getBoards().find(b => b.id === id);
+	}
+
+	// 获取当前看板
+	getActiveBoard(): ReferenceBoard {
+		return this.findBoard(this.activeBoardId)!;
+	}
+
+	// 切换当前看板
+	switchBoard(id: string): boolean {
+		if (!this.findBoard(id)) {
+			return false;
+		}
+		this.activeBoardId = id;
+		const activeBoards = this.context.workspaceState.get<Partial<Record<ReferenceStoreKind, string>>>(ACTIVE_BOARDS_KEY, {});
+		this.context.workspaceState.update(ACTIVE_BOARDS_KEY, { ...activeBoards, [this.storeKind]: id });
+		this._onDidChange.fire();
+		return true;
+	}
+
+	// 新建看板
+	createBoard(name: string): ReferenceBoard {
+		const now = new Date().toISOString();
+		const board: ReferenceBoard = { id: generateId('board'), name, createdAt: now, updatedAt: now };
+		this.recordHistory('新建看板');
+		this.boards.push(board);
+		this.saveReferences();
+		return board;
+	}
+
+	// 修改看板的名称或归档状态，默认看板不能归档
+	updateBoard(id: string, changes: Partial<Pick<ReferenceBoard, 'name' | 'archived'>>): boolean {
+		const board = this.findBoard(id);
+		if (!board || (id === DEFAULT_BOARD_ID && changes.archived)) {
+			return false;
+		}
+		this.recordHistory(changes.archived === undefined ? '重命名看板' : changes.archived ? '归档看板' : '取消归档看板');
+		Object.assign(board, changes, { updatedAt: new Date().toISOString() });
+		// 默认看板只有改名后才需要保存
+		if (!this.boards.includes(board)) {
+			this.boards.unshift(board);
+		}
+		this.saveReferences();
+		return true;
+	}
+
+	// 复制看板及其中的所有引用项
+	duplicateBoard(id: string, name: string): ReferenceBoard | undefined {
+		if (!this.findBoard(id)) {
+			return undefined;
+		}
+		const board = this.createBoard(name);
+		const now = new Date().toISOString();
+		const source = this.references.filter(r => (r.boardId || DEFAULT_BOARD_ID) === id);
+		const newIds = new Map(source.map(r => [r.id, generateId('ref')]));
+		this.references.push(...source.map(r => ({
+			...r,
+			id: newIds.get(r.id)!,
+			parentId: r.parentId ? newIds.get(r.parentId) : undefined,
+			boardId: board.id,
+			createdAt: now,
+			updatedAt: now
+		})));
+		this.saveReferences();
+		return board;
+	}
+
+	// 导入引用项到当前看板；替换时当前看板原有的引用项放入回收站。
+	// 导入项重新生成id，上级分组为导入项或当前看板中已有的分组
+	importReferences(items: ReferenceItem[], replace: boolean): number {
+		this.recordHistory('导入引用项');
+		const board = this.getActiveBoard();
+		if (replace) {
+			const current = this.getReferences();
+			if (current.length > 0) {
+				this.moveToTrash(`看板：${board.name}（导入前）`, current);
+			}
+			this.references = this.references.filter(r => !current.includes(r));
+		}
+		const now = new Date().toISOString();
+		const existingGroups = new Set(this.getReferences().filter(r => r.type === 'group').map(r => r.id));
+		const newIds = new Map(items.map(r => [r.id, generateId('ref')]));
+		this.references.push(...items.map(r => ({
+			...r,
+			id: newIds.get(r.id)!,
+			parentId: r.parentId && (newIds.get(r.parentId) ?? (existingGroups.has(r.parentId) ? r.parentId : undefined)),
+			boardId: board.id === DEFAULT_BOARD_ID ? undefined : board.id,
+			workspaceFolder: workspaceFolderOf(r) ?? r.workspaceFolder,
+			createdAt: r.createdAt || now,
+			updatedAt: now
+		})));
+		this.saveReferences();
+		return items.length;
+	}
+
+	// 删除看板，其中的引用项放入回收站，默认看板不能删除
+	deleteBoard(id: string): boolean {
+		const board = this.findBoard(id);
+		if (id === DEFAULT_BOARD_ID || !board) {
+			return false;
+		}
+		this.recordHistory('删除看板');
+		this.moveToTrash(`看板：${board.name}`, this.references.filter(r => r.boardId === id));
+		this.boards = this.boards.filter(b => b.id !== id);
+		this.references = this.references.filter(r => r.boardId !== id);
+		if (this.activeBoardId === id) {
+			this.switchBoard(DEFAULT_BOARD_ID);
+		}
+		this.saveReferences();
+		return true;
+	}
+
+	// 统计看板中的引用项数
+	countBoardReferences(id: string): number {
+		return this.references.filter(r => (r.boardId || DEFAULT_BOARD_ID) === id).length;
+	}
+
+	// 更新引用项顺序
+	updateOrder(newOrder: string[]): void {
+		this.recordHistory('调整顺序');
+		const newReferences: ReferenceItem[] = [];
+		newOrder.forEach(id => {
+			const ref = this.references.find(r => r.id === id);
+			if (ref) {
+				newReferences.push(ref);
+			}
+		});
+		// 添加未在新顺序中的引用项
+		this.references.forEach(ref => {
+			if (!newOrder.includes(ref.id)) {
+				newReferences.push(ref);
+			}
+		});
+		this.references = newReferences;
+		this.saveReferences();
+	}
+
+	// 删除引用项并放入回收站，分组会连同其中的内容一起删除
+	deleteReference(id: string): void {
+		const reference = this.references.find(r => r.id === id);
+		if (!reference) {
+			return;
+		}
+		this.recordHistory('删除引用项');
+		const removed = new Set([id, ...this.getDescendantIds(id)]);
+		this.moveToTrash(reference.title, this.references.filter(r => removed.has(r.id)));
+		this.references = this.references.filter(r => !removed.has(r.id));
+		this.saveReferences();
+	}
+
+	// 获取分组下所有层级的子项id
+	getDescendantIds(id: string): string[] {
+		const result: string[] = [];
+		const collect = (parentId: string) => {
+			this.references.forEach(r => {
+				if (r.parentId === parentId) {
+					result.push(r.id);
+					collect(r.id);
+				}
+			});
+		};
+		collect(id);
+		return result;
+	}
+
+	// 添加分组
+	addGroup(title: string, parentId?: string): ReferenceItem {
+		return this.addReference({ type: 'group', title, parentId, collapsed: false });
+	}
+
+	// 删除分组但保留其中的内容，子项移动到上一级
+	ungroup(id: string): void {
+		const group = this.references.find(r => r.id === id && r.type === 'group');
+		if (!group) {
+			return;
+		}
+		this.recordHistory('取消分组');
+		this.references.forEach(r => {
+			if (r.parentId === id) {
+				r.parentId = group.parentId;
+			}
+		});
+		this.references = this.references.filter(r => r.id !== id);
+		this.saveReferences();
+	}
+
+	// 设置分组的折叠状态；save 为 false 时只修改内存中的数据，随下次保存写入，不触发刷新
+	setGroupCollapsed(id: string, collapsed: boolean, save: boolean = true): void {
+		const group = this.references.find(r => r.id === id && r.type === 'group');
+		if (group && !!group.collapsed !== collapsed) {
+			group.collapsed = collapsed;
+			if (save) {
+				this.saveReferences();
+			}
+		}
+	}
+
+	// 将引用项移动到指定分组（parentId为空表示顶层），并放在beforeId之前
+	moveToGroup(id: string, parentId: string | undefined, beforeId?: string): boolean {
+		const item = this.references.find(r => r.id === id);
+		if (!item || id === parentId || id === beforeId) {
+			return false;
+		}
+		// 不允许把分组移动到自身的子分组中
+		if (parentId && (this.getDescendantIds(id).includes(parentId) || !this.references.some(r => r.id === parentId && r.type === 'group'))) {
+			return false;
+		}
+
+		this.recordHistory('移动引用项');
+		this.references = this.references.filter(r => r.id !== id);
+		item.parentId = parentId;
+		const beforeIndex = beforeId ? this.references.findIndex(r => r.id === beforeId) : -1;
+		if (beforeIndex !== -1) {
+			this.references.splice(beforeIndex, 0, item);
+		} else {
+			this.references.push(item);
+		}
+		this.saveReferences();
+		return true;
+	}
+
+	// 更新引用项标题
+	updateReferenceTitle(id: string, title: string): void {
+		const reference = this.references.find(r => r.id === id);
+		if (reference) {
+			this.recordHistory('修改标题');
+			reference.title = title;
+			reference.updatedAt = new Date().toISOString();
+			this.saveReferences();
+		}
+	}
+
+	// 批量更新引用项的字段
+	updateReference(id: string, changes: Partial<Omit<ReferenceItem, 'id' | 'createdAt' | 'updatedAt'>>): void {
+		const reference = this.references.find(r => r.id === id);
+		if (reference) {
+			this.recordHistory('修改引用项');
+			Object.assign(reference, changes, { updatedAt: new Date().toISOString() });
+			this.saveReferences();
+		}
+	}
+
+	// 更新引用项的备注，内容为空时删除备注
+	updateReferenceComment(id: string, comment: string): void {
+		const reference = this.references.find(r => r.id === id);
+		if (reference) {
+			this.recordHistory('修改备注');
+			reference.comment = comment.trim() ? comment : undefined;
+			reference.updatedAt = new Date().toISOString();
+			this.saveReferences();
+		}
+	}
+
+	// 更新引用项的标签
+	updateReferenceTags(id: string, tags: string[]): void {
+		const reference = this.references.find(r => r.id === id);
+		if (reference) {
+			this.recordHistory('修改标签');
+			reference.tags = tags;
+			reference.updatedAt = new Date().toISOString();
+			this.saveReferences();
+		}
+	}
+
+	// 更新引用项的代码片段（片段位置发生变化后重新锚定）
+	updateReferenceSnippet(id: string, snippet: string): void {
+		const reference = this.references.find(r => r.id === id);
+		if (reference) {
+			this.recordHistory('更新代码片段');
+			reference.snippet = snippet;
+			reference.updatedAt = new Date().toISOString();
+			this.saveReferences();
+		}
+	}
+
+	// 统计指定存储位置中所有看板的引用项数，无法读取时为 0
+	countStoreReferences(kind: ReferenceStoreKind): number {
+		if (kind === this.storeKind) {
+			return this.references.length;
+		}
+		const storagePath = this.getStorePath(kind);
+		return storagePath && fs.existsSync(storagePath) ? this.readStore(storagePath)?.data.references.length ?? 0 : 0;
+	}
+
+	// 把另一个存储位置中的所有看板和引用项复制到当前存储位置，id 已存在的跳过；返回复制的引用项数
+	copyFromStore(source: ReferenceStoreKind): number {
+		const sourcePath = this.getStorePath(source);
+		const data = sourcePath && source !== this.storeKind ? this.readStore(sourcePath)?.data : undefined;
+		if (!data) {
+			return 0;
+		}
+		const referenceIds = new Set(this.references.map(r => r.id));
+		const boardIds = new Set(this.boards.map(b => b.id));
+		const copied = data.references.filter(r => !referenceIds.has(r.id));
+		this.recordHistory(`复制${STORE_LABELS[source]}引用列表`);
+		this.boards.push(...data.boards.filter(b => !boardIds.has(b.id)));
+		this.references.push(...copied);
+		this.saveReferences();
+		return copied.length;
+	}
+
+	// 将引用项移动到另一个存储位置
+	moveReference(id: string, target: ReferenceStoreKind): boolean {
+		const reference = this.references.find(r => r.id === id);
+		const targetPath = this.getStorePath(target);
+		if (!reference || !targetPath || target === this.storeKind) {
+			return false;
+		}
+		// 分组连同其中的内容一起移动，移动的项放到目标位置的顶层
+		const movedIds = [id, ...this.getDescendantIds(id)];
+		// 目标位置不一定有同名看板，移动的项放到目标位置的默认看板
+		const moved = this.references
+			.filter(r => movedIds.includes(r.id))
+			.map(r => ({ ...r, boardId: undefined }))
+			.map(r => r.id === id ? { ...r, parentId: undefined, updatedAt: new Date().toISOString() } : r);
+		const targetData = this.readStore(targetPath)?.data;
+		if (!targetData) {
+			return false;
+		}
+		targetData.references = targetData.references.filter(r => !movedIds.includes(r.id));
+		targetData.references.push(...moved);
+		if (!this.writeStore(targetPath, targetData)) {
+			return false;
+		}
+		// 移动到其他存储位置的项不进入回收站；目标文件已写入，撤销会产生重复，因此清空撤销历史
+		const removed = new Set(movedIds);
+		this.references = this.references.filter(r => !removed.has(r.id));
+		this.undoStack = [];
+		this.redoStack = [];
+		this.saveReferences();
+		return true;
+	}
+
+	// 对所有可用存储位置中的引用项执行修改，返回被修改的引用项id
+	private updateAllStores(update: (reference: ReferenceItem) => boolean): string[] {
+		const changedIds: string[] = [];
+		for (const kind of this.getAvailableStores()) {
+			const isActive = kind === this.storeKind;
+			if (isActive) {
+				this.mergeExternalChanges();
+			}
+			const data = isActive ? this.getStoreData() : this.readStore(this.getStorePath(kind)!)?.data;
+			if (!data) {
+				continue;
+			}
+			const changed = data.references.filter(update);
+			// 自动修改（例如文件重命名）也应用到回收站和撤销历史中，恢复或撤销时不会带回旧路径
+			const trashChanged = data.trash.flatMap(entry => entry.items.filter(update));
+			if (isActive) {
+				[...this.undoStack, ...this.redoStack].forEach(entry => {
+					entry.data.references.forEach(update);
+					entry.data.trash.forEach(trashEntry => trashEntry.items.forEach(update));
+				});
+			}
+			if (changed.length > 0 || trashChanged.length > 0) {
+				const now = new Date().toISOString();
+				changed.forEach(r => r.updatedAt = now);
+				this.writeStore(this.getStorePath(kind)!, data);
+				if (isActive && changed.length > 0) {
+					changedIds.push(...changed.map(r => r.id));
+					this._onDidChange.fire();
+				}
+			}
+		}
+		return changedIds;
+	}
+
+	// 文件或文件夹重命名/移动后，更新引用的路径和自动生成的标题
+	renameFilePaths(oldPath: string, newPath: string): string[] {
+		const oldName = path.basename(oldPath);
+		const newName = path.basename(newPath);
+		return this.updateAllStores(reference => {
+			const filePath = localPath(reference);
+			if (!filePath || !isSameOrInside(filePath, oldPath)) {
+				return false;
+			}
+			const renamedFile = filePath === oldPath;
+			reference.filePath = newPath + filePath.substring(oldPath.length);
+			reference.workspaceFolder = workspaceFolderOf(reference) ?? reference.workspaceFolder;
+			reference.orphaned = undefined;
+			// 只更新仍为默认值的标题：文件名，或"文件名: 片段"
+			if (renamedFile && oldName !== newName) {
+				if (reference.title === oldName) {
+					reference.title = newName;
+				} else if (reference.title.startsWith(`${oldName}: `)) {
+					reference.title = newName + reference.title.substring(oldName.length);
+				}
+			}
+			return true;
+		});
+	}
+
+	// 文件或文件夹被删除后，将相关引用标记为孤立而不是删除
+	markOrphaned(deletedPath: string): string[] {
+		return this.updateAllStores(reference => {
+			// 全局片段不依赖具体文件，不需要标记
+			const filePath = localPath(reference);
+			if (!filePath || reference.orphaned || reference.type === 'global-snippet' || !isSameOrInside(filePath, deletedPath)) {
+				return false;
+			}
+			reference.orphaned = true;
+			return true;
+		});
+	}
+
+	// 文件重新出现后（例如撤销删除），取消孤立标记
+	clearOrphaned(createdPath: string): string[] {
+		return this.updateAllStores(reference => {
+			const filePath = localPath(reference);
+			if (!reference.orphaned || !filePath || !isSameOrInside(filePath, createdPath)) {
+				return false;
+			}
+			reference.orphaned = undefined;
+			return true;
+		});
+	}
+
+	// 获取存储路径
+	getStoragePath(): string {
+		return this.storagePath;
+	}
+
+	dispose(): void {
+		this.storeWatcher.forEach(d => d.dispose());
+		this.storeWatcher = [];
+		this._onDidChange.dispose();
+		this._onDidChangeExternally.dispose();
+	}
+}
@@ -0,0 +1,465 @@
+import * as path from 'path';
+import { ReferenceItem } from '../types/referenct';
+import { isDeepLink, parseDeepLinkQuery } from '../link/deepLink';
+import { loadStoreContent, serializeStore } from './storeSchema';
+
+// 引用列表的导入和导出：JSON（与存储文件格式相同）、Markdown 文档和 CSV 表格。
+// 导出时工作区中的文件改为相对路径，导入时按当前工作区重新解析为绝对路径
+
+export type TransferFormat = 'json' | 'markdown' | 'csv';
+
+export const TRANSFER_FORMATS: { format: TransferFormat; label: string; extension: string }[] = [
+	{ format: 'json', label: 'JSON', extension: 'json' },
+	{ format: 'markdown', label: 'Markdown', extension: 'md' },
+	{ format: 'csv', label: 'CSV', extension: 'csv' }
+];
+
+// 工作区文件夹的名称和本地路径
+export interface WorkspaceRoot {
+	name: string;
+	path: string;
+}
+
+// 导入的内容：引用项（分组关系由 parentId 表示）和无法导入的项的说明
+export interface ImportedReferences {
+	references: ReferenceItem[];
+	problems: string[];
+}
+
+// 按文件扩展名判断格式，无法判断时按内容判断
+export function detectFormat(fileName: string, content: string): TransferFormat {
+	const extension = path.extname(fileName).toLowerCase();
+	if (extension === '.md' || extension === '.markdown') {
+		return 'markdown';
+	}
+	if (extension === '.csv') {
+		return 'csv';
+	}
+	return /^\s*[[{]/.test(content.replace(/^﻿/, '')) || extension === '.json' ? 'json' : 'markdown';
+}
+
+// 工作区中的文件改为相对于所在文件夹的路径（以 / 分隔），同时记录文件夹名称
+export function relativizePaths(references: ReferenceItem[], roots: WorkspaceRoot[]): ReferenceItem[] {
+	return references.map(reference => {
+		if (!reference.filePath || reference.uri || !path.isAbsolute(reference.filePath)) {
+			return reference;
+		}
+		// 嵌套的工作区文件夹以最内层为准
+		const root = roots
+			.filter(r => !path.relative(r.path, reference.filePath!).startsWith('..') && !path.isAbsolute(path.relative(r.path, reference.filePath!)))
+			.sort((a, b) => b.path.length - a.path.length)[0];
+		if (!root) {
+			return reference;
+		}
+		const relative = path.relative(root.path, reference.filePath).split(path.sep).join('/');
+		return { ...reference, filePath: relative, workspaceFolder: root.name };
+	});
+}
+
+// 把导入的路径解析到当前工作区：相对路径放到同名文件夹（没有时为第一个文件夹）下；
+// 其他电脑上的绝对路径，如果包含记录的文件夹名称，取其后的部分重新解析
+export function rebasePaths(references: ReferenceItem[], roots: WorkspaceRoot[]): ReferenceItem[] {
+	return references.map(reference => {
+		const filePath = reference.filePath;
+		if (!filePath || reference.uri || roots.length === 0) {
+			return reference;
+		}
+		const root = roots.find(r => r.name === reference.workspaceFolder) || roots[0];
+		if (!path.isAbsolute(filePath) && !/^[a-zA-Z]:[\\/]/.test(filePath)) {
+			return { ...reference, filePath: path.join(root.path, ...filePath.split('/')) };
+		}
+		const inWorkspace = roots.some(r => filePath === r.path || filePath.startsWith(r.path + path.sep));
+		const segments = filePath.split(/[\\/]/);
+		const index = reference.workspaceFolder ? segments.lastIndexOf(reference.workspaceFolder) : -1;
+		if (inWorkspace || index < 0) {
+			return reference;
+		}
+		return { ...reference, filePath: path.join(root.path, ...segments.slice(index + 1)) };
+	});
+}
+
+// 导出为与存储文件相同格式的 JSON，不包含看板和回收站
+export function exportJson(references: ReferenceItem[]): string {
+	return serializeStore({ boards: [], references: references.map(({ boardId, ...reference }) => reference), trash: [] });
+}
+
+// 标题中的类型标记，渲染后不可见，导入时据此还原类型
+function typeMarker(reference: ReferenceItem): string {
+	return `<!-- ${reference.type} -->`;
+}
+
+// 围栏比片段中最长的连续反引号多一个，至少三个
+function fence(snippet: string): string {
+	const longest = Math.max(0, ...(snippet.match(/`+/g) || []).map(run => run.length));
+	return '`'.repeat(Math.max(3, longest + 1));
+}
+
+// 导出为 Markdown：分组为标题，引用项为带深度链接的标题，片段放在代码块中，备注和标签放在其后
+export function exportMarkdown(title: string, references: ReferenceItem[], linkFor: (reference: ReferenceItem) => string | undefined): string {
+	const ids = new Set(references.map(r => r.id));
+	const lines: string[] = [`# ${title}`, ''];
+	const write = (parentId: string | undefined, depth: number) => {
+		references.filter(r => (r.parentId && ids.has(r.parentId) ? r.parentId : undefined) === parentId).forEach(reference => {
+			const hashes = '#'.repeat(Math.min(6, depth + 2));
+			const text = reference.title.replace(/\s+/g, ' ').replace(/[[\]]/g, '\\$&');
+			const link = reference.type === 'group' || reference.type === 'comment' ? undefined : linkFor(reference);
+			lines.push(`${hashes} ${link ? `[${text}](${link})` : text} ${typeMarker(reference)}`, '');
+			if (reference.filePath) {
+				const line = reference.startLine !== undefined ? ` 第 ${reference.startLine + 1} 行` : '';
+				lines.push(`\`${reference.filePath}\`${line}`, '');
+			}
+			if (reference.snippet) {
+				const marks = fence(reference.snippet);
+				const language = reference.filePath ? path.extname(reference.filePath).substring(1) : '';
+				lines.push(`${marks}${language}`, reference.snippet, marks, '');
+			}
+			if (reference.tags && reference.tags.length > 0) {
+				lines.push(`标签：${reference.tags.map(tag => `#${tag}`).join(' ')}`, '');
+			}
+			if (reference.comment) {
+				lines.push(reference.comment.trim(), '');
+			}
+			if (reference.type === 'group') {
+				write(reference.id, depth + 1);
+			}
+		});
+	};
+	write(undefined, 0);
+	return lines.join('\n');
+}
+
+// 没有记录类型时按内容推断
+function inferType(reference: Partial<ReferenceItem>): ReferenceItem['type'] {
+	if (reference.filePath) {
+		return reference.snippet ? 'file-snippet' : 'file';
+	}
+	return reference.snippet ? 'global-snippet' : 'comment';
+}
+
+const REFERENCE_TYPES = new Set<string>(['file', 'file-snippet', 'global-snippet', 'symbol', 'comment', 'group']);
+
+function newReference(id: number, fields: Partial<ReferenceItem>, now: string): ReferenceItem {
+	const reference = { ...fields, id: `import-${id}`, createdAt: now, updatedAt: now } as ReferenceItem;
+	reference.type = fields.type && REFERENCE_TYPES.has(fields.type) ? fields.type : inferType(fields);
+	return reference;
+}
+
+// 解析 Markdown：没有链接的标题为分组，带链接的标题为引用项；标题后的类型标记优先
+function parseMarkdown(content: string, now: string): ImportedReferences {
+	const references: ReferenceItem[] = [];
+	// 有类型标记的引用项，其余的在解析完后按内容推断类型
+	const typed = new Set<string>();
+	// 当前所在的各级分组
+	const groups: { level: number; id: string }[] = [];
+	let current: ReferenceItem | undefined;
+	let snippetFromBlock = false;
+	let note: string[] = [];
+	const lines = content.replace(/^﻿/, '').split(/\r?\n/);
+
+	const finishNote = () => {
+		if (current && note.join('\n').trim()) {
+			current.comment = note.join('\n').trim();
+		}
+		note = [];
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const heading = /^(#{1,6})\s+(.*?)\s*$/.exec(line);
+		if (heading) {
+			finishNote();
+			const level = heading[1].length;
+			const marker = /\s*<!--\s*([\w-]+)\s*-->$/.exec(heading[2]);
+			const text = marker ? heading[2].substring(0, marker.index) : heading[2];
+			const linked = /^\[(.*)\]\((\S+)\)$/.exec(text);
+			// 没有类型标记的一级标题是文档标题
+			if (level === 1 && !marker) {
+				current = undefined;
+				continue;
+			}
+			while (groups.length > 0 && groups[groups.length - 1].level >= level) {
+				groups.pop();
+			}
+			const fields: Partial<ReferenceItem> = {
+				type: (marker && REFERENCE_TYPES.has(marker[1]) ? marker[1] : linked ? undefined : 'group') as ReferenceItem['type'],
+				title: (linked ? linked[1] : text).replace(/\\([[\]])/g, '$1'),
+				parentId: groups[groups.length - 1]?.id
+			};
+			if (linked && isDeepLink(linked[2])) {
+				try {
+					const link = parseDeepLinkQuery(linked[2].substring(linked[2].indexOf('?')));
+					Object.assign(fields, { filePath: link.filePath, snippet: link.snippet, workspaceFolder: link.workspace });
+					fields.startLine = link.line ? link.line - 1 : undefined;
+				} catch {
+					// 链接不完整时只导入标题
+				}
+			}
+			current = newReference(references.length, fields, now);
+			references.push(current);
+			if (marker || !linked) {
+				typed.add(current.id);
+			}
+			if (current.type === 'group') {
+				groups.push({ level, id: current.id });
+			}
+			snippetFromBlock = false;
+			continue;
+		}
+		if (!current) {
+			continue;
+		}
+
+		// 标题后、备注前的第一个代码块是片段，其余代码块属于备注
+		const opening = /^(`{3,}|~{3,})/.exec(line);
+		if (opening) {
+			const close = lines.findIndex((l, j) => j > i && l.trim().startsWith(opening[1]) && /^(`+|~+)$/.test(l.trim()));
+			const end = close < 0 ? lines.length : close;
+			if (!snippetFromBlock && note.length === 0 && current.type !== 'group' && current.type !== 'comment') {
+				current.snippet = lines.slice(i + 1, end).join('\n');
+				snippetFromBlock = true;
+			} else {
+				note.push(...lines.slice(i, end + 1));
+			}
+			i = end;
+			continue;
+		}
+		if (note.length === 0) {
+			// 位置：`路径` 第 N 行
+			const location = /^`([^`]+)`(?:\s*第\s*(\d+)\s*行)?\s*$/.exec(line);
+			if (location) {
+				current.filePath = location[1];
+				current.startLine = location[2] ? Number(location[2]) - 1 : current.startLine;
+				continue;
+			}
+			const tags = /^标签[：:]\s*(.*)$/.exec(line);
+			if (tags) {
+				current.tags = tags[1].split(/\s+/).map(tag => tag.replace(/^#/, '')).filter(Boolean);
+				continue;
+			}
+		}
+		if (note.length > 0 || line.trim()) {
+			note.push(line);
+		}
+	}
+	finishNote();
+
+	references.filter(r => !typed.has(r.id)).forEach(reference => reference.type = inferType(reference));
+	return { references, problems: [] };
+}
+
+// CSV 的列，导入时按表头中的列名识别，可以只有其中一部分
+const CSV_COLUMNS = ['type', 'title', 'path', 'line', 'snippet', 'note', 'tags', 'group'] as const;
+
+// 分组列中各级分组名称的分隔符
+const GROUP_SEPARATOR = ' / ';
+
+function csvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// 导出为 CSV：每行一项，分组列为各级上级分组的名称；带 BOM，便于表格软件识别编码
+export function exportCsv(references: ReferenceItem[]): string {
+	const byId = new Map(references.map(r => [r.id, r]));
+	const groupPath = (reference: ReferenceItem): string => {
+		const names: string[] = [];
+		for (let parent = reference.parentId && byId.get(reference.parentId); parent; parent = parent.parentId && byId.get(parent.parentId)) {
+			names.unshift(parent.title);
+		}
+		return names.join(GROUP_SEPARATOR);
+	};
+	const rows = references.map(reference => [
+		reference.type,
+		reference.title,
+		reference.filePath || '',
+		reference.startLine !== undefined ? String(reference.startLine + 1) : '',
+		reference.snippet || '',
+		reference.comment || '',
+		(reference.tags || []).join(' '),
+		groupPath(reference)
+	]);
+	return '﻿' + [[...CSV_COLUMNS], ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// 按 RFC 4180 拆分 CSV，引号中的字段可以包含逗号和换行
+function parseCsvRows(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+		if (quoted) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && content[i + 1] === '\n') {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter(r => r.some(value => value.trim()));
+}
+
+function parseCsv(content: string, now: string): ImportedReferences {
+	const [header, ...rows] = parseCsvRows(content.replace(/^﻿/, ''));
+	const columns = (header || []).map(name => name.trim().toLowerCase());
+	if (!columns.includes('title') && !columns.includes('path') && !columns.includes('snippet')) {
+		return { references: [], problems: ['CSV 的第一行应为表头，至少包含 title、path 或 snippet 列'] };
+	}
+	const references: ReferenceItem[] = [];
+	const problems: string[] = [];
+	// 按各级名称查找或创建分组
+	const groupIds = new Map<string, string>();
+	const groupFor = (names: string[]): string | undefined => {
+		let parentId: string | undefined;
+		names.forEach((name, index) => {
+			const key = names.slice(0, index + 1).join('\n');
+			if (!groupIds.has(key)) {
+				const group = newReference(references.length, { type: 'group', title: name, parentId }, now);
+				references.push(group);
+				groupIds.set(key, group.id);
+			}
+			parentId = groupIds.get(key);
+		});
+		return parentId;
+	};
+
+	rows.forEach((row, index) => {
+		const value = (column: typeof CSV_COLUMNS[number]) => {
+			const at = columns.indexOf(column);
+			return at >= 0 ? row[at]?.trim() || undefined : undefined;
+		};
+		const groupNames = (value('group') || '').split(GROUP_SEPARATOR.trim()).map(name => name.trim()).filter(Boolean);
+		const type = value('type');
+		if (type && !REFERENCE_TYPES.has(type)) {
+			problems.push(`第 ${index + 2} 行：type 应为 ${[...REFERENCE_TYPES].join('、')} 之一`);
+			return;
+		}
+		const line = value('line') ? Number(value('line')) : undefined;
+		const snippet = columns.includes('snippet') ? row[columns.indexOf('snippet')] || undefined : undefined;
+		const title = value('title') || (value('path') ? path.basename(value('path')!) : snippet?.trim().split('\n')[0].substring(0, 50));
+		if (!title) {
+			problems.push(`第 ${index + 2} 行：缺少 title`);
+			return;
+		}
+		if (line !== undefined && !(Number.isInteger(line) && line > 0)) {
+			problems.push(`第 ${index + 2} 行：line 应为正整数`);
+			return;
+		}
+		if (type === 'group') {
+			groupFor([...groupNames, title]);
+			return;
+		}
+		references.push(newReference(references.length, {
+			type: type as ReferenceItem['type'] | undefined,
+			title,
+			filePath: value('path'),
+			startLine: line !== undefined ? line - 1 : undefined,
+			snippet,
+			comment: value('note'),
+			tags: value('tags')?.split(/\s+/).map(tag => tag.replace(/^#/, '')),
+			parentId: groupFor(groupNames)
+		}, now));
+	});
+	return { references, problems };
+}
+
+// 解析导入的文件内容
+export function parseImport(content: string, format: TransferFormat, now: string = new Date().toISOString()): ImportedReferences {
+	switch (format) {
+		case 'json': {
+			const { data, problems } = loadStoreContent(content.replace(/^﻿/, ''));
+			return { references: data.references, problems };
+		}
+		case 'markdown':
+			return parseMarkdown(content, now);
+		case 'csv':
+			return parseCsv(content, now);
+	}
+}
+
+// 判断重复的依据：注释按内容，其他引用项按类型、文件、片段和符号
+function contentKey(reference: ReferenceItem): string {
+	return reference.type === 'comment'
+		? `comment\n${reference.title}`
+		: [reference.type, reference.uri || reference.filePath || '', reference.snippet || '', (reference.symbolPath || []).join('.')].join('\n');
+}
+
+// 与已有引用项重复的导入项（导入项id到已有项id）：分组与同一上级下同名的分组重复，其他项与内容相同的项重复
+export function findDuplicates(imported: ReferenceItem[], existing: ReferenceItem[]): Map<string, string> {
+	const importedById = new Map(imported.map(r => [r.id, r]));
+	const existingByKey = new Map(existing.filter(r => r.type !== 'group').map(r => [contentKey(r), r.id]));
+	const duplicates = new Map<string, string>();
+	const visited = new Set<string>();
+
+	const resolve = (reference: ReferenceItem): string | undefined => {
+		if (visited.has(reference.id)) {
+			return duplicates.get(reference.id);
+		}
+		visited.add(reference.id);
+		let match: string | undefined;
+		if (reference.type === 'group') {
+			// 上级分组也重复时才可能与已有分组重复
+			const parent = reference.parentId ? importedById.get(reference.parentId) : undefined;
+			const parentId = parent ? resolve(parent) : undefined;
+			if (!parent || parentId) {
+				match = existing.find(r => r.type === 'group' && r.title === reference.title && r.parentId === parentId)?.id;
+			}
+		} else {
+			match = existingByKey.get(contentKey(reference));
+		}
+		if (match) {
+			duplicates.set(reference.id, match);
+		}
+		return match;
+	};
+	imported.forEach(resolve);
+	return duplicates;
+}
+
+export type DuplicateMode = 'skip' | 'rename';
+
+// 按处理方式整理重复项：跳过时不导入重复的项，重复分组中的项放入已有分组；重命名时在名称后加序号
+export function planImport(imported: ReferenceItem[], existing: ReferenceItem[], mode: DuplicateMode): ReferenceItem[] {
+	const duplicates = findDuplicates(imported, existing);
+	if (mode === 'skip') {
+		return imported
+			.filter(reference => !duplicates.has(reference.id))
+			.map(reference => reference.parentId && duplicates.has(reference.parentId)
+				? { ...reference, parentId: duplicates.get(reference.parentId) }
+				: reference);
+	}
+	const titles = new Set([...existing, ...imported].map(r => r.title));
+	return imported.map(reference => {
+		if (!duplicates.has(reference.id)) {
+			return reference;
+		}
+		let n = 2;
+		while (titles.has(`${reference.title} (${n})`)) {
+			n++;
+		}
+		titles.add(`${reference.title} (${n})`);
+		return { ...reference, title: `${reference.title} (${n})` };
+	});
+}
@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { ReferenceItem } from '../types/referenct';
+
+// 引用项指向的文档：本地文件只记录 filePath，远程、虚拟文件系统等其他协议的文档同时记录完整 URI
+
+export type ReferenceLocation = Pick<ReferenceItem, 'filePath' | 'uri'>;
+
+// 常见的无法重新打开的文档
+const UNSUPPORTED_DOCUMENTS: Record<string, string> = {
+	untitled: '未保存的新文件',
+	output: '输出面板中的内容',
+	'vscode-settings': '设置编辑器'
+};
+
+// 文档对应的引用位置；文档关闭后无法通过 workspace.fs 重新打开时返回错误提示
+export function locationForDocument(uri: vscode.Uri): ReferenceLocation | string {
+	// 源代码管理视图中的文档，改为引用工作区中的文件
+	if (uri.scheme === 'git') {
+		uri = uri.with({ scheme: 'file', query: '' });
+	}
+	if (uri.scheme === 'file') {
+		return { filePath: uri.fsPath };
+	}
+	if (vscode.workspace.fs.isWritableFileSystem(uri.scheme) === undefined) {
+		const name = UNSUPPORTED_DOCUMENTS[uri.scheme] || `${uri.scheme}: 协议的文档`;
+		return `无法添加${name}：关闭后无法重新打开，请先保存为文件`;
+	}
+	return { filePath: uri.fsPath, uri: uri.toString() };
+}
+
+// 引用项指向的文档 URI
+export function referenceUri(reference: ReferenceLocation): vscode.Uri | undefined {
+	if (reference.uri) {
+		return vscode.Uri.parse(reference.uri);
+	}
+	return reference.filePath ? vscode.Uri.file(reference.filePath) : undefined;
+}
+
+// 引用项是否指向该文档
+export function isReferenceTo(reference: ReferenceLocation, uri: vscode.Uri): boolean {
+	return reference.uri
+		? reference.uri === uri.toString()
+		: uri.scheme === 'file' && reference.filePath === uri.fsPath;
+}
+
+// 文档是否存在，通过 workspace.fs 检查，适用于所有已注册的文件系统
+export async function uriExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,72 @@
+import { ReferenceStoreData } from '../types/referenct';
+
+// 多个窗口共用同一个存储文件时，合并其他窗口写入的修改。
+// 以上次读取或写入的内容为基准，按id逐项比较：只有一方修改的项采用修改后的版本，
+// 双方都修改的项采用更新时间较晚的版本，一方删除而另一方未修改的项删除
+
+interface Identified {
+	id: string;
+	updatedAt?: string;
+}
+
+function sameItem(a: Identified | undefined, b: Identified | undefined): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 一方的顺序相对基准是否有变化（只比较双方都有的项）
+function orderChanged(base: Identified[], items: Identified[]): boolean {
+	const ids = new Set(items.map(item => item.id));
+	const baseOrder = base.filter(item => ids.has(item.id)).map(item => item.id);
+	const baseIds = new Set(baseOrder);
+	const order = items.filter(item => baseIds.has(item.id)).map(item => item.id);
+	return baseOrder.some((id, i) => order[i] !== id);
+}
+
+function mergeList<T extends Identified>(base: T[], ours: T[], theirs: T[]): T[] {
+	const baseById = new Map(base.map(item => [item.id, item]));
+	const oursById = new Map(ours.map(item => [item.id, item]));
+	const theirsById = new Map(theirs.map(item => [item.id, item]));
+
+	const pick = (id: string): T | undefined => {
+		const original = baseById.get(id);
+		const mine = oursById.get(id);
+		const other = theirsById.get(id);
+		if (!mine || !other) {
+			// 一方删除：另一方未修改时删除，修改过时保留修改后的版本
+			const kept = mine || other;
+			return original && sameItem(kept, original) ? undefined : kept;
+		}
+		if (sameItem(mine, original)) {
+			return other;
+		}
+		if (sameItem(other, original)) {
+			return mine;
+		}
+		return (other.updatedAt || '') > (mine.updatedAt || '') ? other : mine;
+	};
+
+	// 以调整过顺序的一方为主，另一方新增的项放在它原来的前一项之后
+	const [primary, secondary] = orderChanged(base, ours) || !orderChanged(base, theirs) ? [ours, theirs] : [theirs, ours];
+	const order = primary.map(item => item.id);
+	const placed = new Set(order);
+	secondary.forEach((item, i) => {
+		if (placed.has(item.id)) {
+			return;
+		}
+		let previous = -1;
+		for (let j = i - 1; j >= 0 && previous < 0; j--) {
+			previous = order.indexOf(secondary[j].id);
+		}
+		order.splice(previous + 1, 0, item.id);
+		placed.add(item.id);
+	});
+	return order.map(pick).filter((item): item is T => !!item);
+}
+
+export function mergeStoreData(base: ReferenceStoreData, ours: ReferenceStoreData, theirs: ReferenceStoreData): ReferenceStoreData {
+	return {
+		boards: mergeList(base.boards, ours.boards, theirs.boards),
+		references: mergeList(base.references, ours.references, theirs.references),
+		trash: mergeList(base.trash, ours.trash, theirs.trash)
+	};
+}
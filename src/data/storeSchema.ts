@@ -0,0 +1,201 @@
+import { ReferenceBoard, ReferenceItem, ReferenceStoreData, TrashEntry } from '../types/referenct';
+
+// 存储文件的格式版本、迁移和校验。
+// 版本 0：引用项数组；版本 1：{ boards, references, trash }，没有版本号；版本 2：带 version 字段
+export const STORE_SCHEMA_VERSION = 2;
+
+// 逐步升级：每一步把上一版本的内容转换为下一版本
+const MIGRATIONS: { from: number; migrate: (data: unknown) => unknown }[] = [
+	{ from: 0, migrate: data => ({ boards: [], references: data, trash: [] }) },
+	{ from: 1, migrate: data => ({ ...(data as object), version: 2 }) }
+];
+
+// 字段类型，新增 ReferenceItem 字段时需要在下面的表中登记
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+const REFERENCE_TYPES: ReferenceItem['type'][] = ['file', 'file-snippet', 'global-snippet', 'symbol', 'comment', 'group'];
+
+const REFERENCE_FIELDS: Record<Exclude<keyof ReferenceItem, 'type'>, FieldType> = {
+	id: 'string',
+	title: 'string',
+	filePath: 'string',
+	uri: 'string',
+	workspaceFolder: 'string',
+	snippet: 'string',
+	comment: 'string',
+	tags: 'string[]',
+	symbolPath: 'string[]',
+	symbolKind: 'number',
+	gitCommit: 'string',
+	gitPath: 'string',
+	startLine: 'number',
+	endLine: 'number',
+	contextBefore: 'string',
+	contextAfter: 'string',
+	orphaned: 'boolean',
+	parentId: 'string',
+	collapsed: 'boolean',
+	boardId: 'string',
+	createdAt: 'string',
+	updatedAt: 'string'
+};
+
+const BOARD_FIELDS: Record<keyof ReferenceBoard, FieldType> = {
+	id: 'string',
+	name: 'string',
+	archived: 'boolean',
+	createdAt: 'string',
+	updatedAt: 'string'
+};
+
+// 必须存在的字段；创建和修改时间缺失时（如手动添加的项）补为加载时间
+const REQUIRED_REFERENCE_FIELDS = ['id', 'title'];
+const REQUIRED_BOARD_FIELDS = ['id', 'name'];
+
+// 加载结果：有效的数据、被跳过的无效项说明，以及文件原来的版本
+export interface LoadedStore {
+	data: ReferenceStoreData;
+	problems: string[];
+	version: number;
+}
+
+// 存储文件无法加载（不是 JSON、不是引用数据，或由更新版本的扩展写入）
+export class StoreFormatError extends Error {}
+
+export function emptyStore(): ReferenceStoreData {
+	return { boards: [], references: [], trash: [] };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+	return type === 'string[]'
+		? Array.isArray(value) && value.every(v => typeof v === 'string')
+		: typeof value === type && (type !== 'number' || Number.isFinite(value));
+}
+
+// 检查一项的字段，返回第一个问题；null 与未设置相同
+function checkFields(value: Record<string, unknown>, fields: Record<string, FieldType>, required: string[]): string | undefined {
+	for (const name of required) {
+		if (typeof value[name] !== 'string' || !value[name]) {
+			return `缺少 ${name}`;
+		}
+	}
+	for (const [name, type] of Object.entries(fields)) {
+		if (value[name] !== undefined && value[name] !== null && !matchesType(value[name], type)) {
+			return `${name} 应为 ${type}`;
+		}
+	}
+	return undefined;
+}
+
+// 去掉值为 null 的字段，补全缺失的时间
+function normalize<T>(value: Record<string, unknown>, now: string): T {
+	const result: Record<string, unknown> = { createdAt: now, updatedAt: now };
+	for (const [name, field] of Object.entries(value)) {
+		if (field !== null) {
+			result[name] = field;
+		}
+	}
+	return result as T;
+}
+
+// 校验一组引用项，无效项和重复的 id 记入 problems 并跳过
+function validateReferences(items: unknown, where: string, seen: Set<string>, problems: string[], now: string): ReferenceItem[] {
+	if (!Array.isArray(items)) {
+		if (items !== undefined) {
+			problems.push(`${where} 应为数组`);
+		}
+		return [];
+	}
+	const result: ReferenceItem[] = [];
+	items.forEach((item, index) => {
+		const label = `${where}[${index}]${isObject(item) && typeof item.id === 'string' ? `（id: ${item.id}）` : ''}`;
+		if (!isObject(item)) {
+			problems.push(`${label}：不是对象`);
+			return;
+		}
+		const problem = !REFERENCE_TYPES.includes(item.type as ReferenceItem['type'])
+			? `type 应为 ${REFERENCE_TYPES.join('、')} 之一`
+			: checkFields(item, REFERENCE_FIELDS, REQUIRED_REFERENCE_FIELDS)
+				?? (seen.has(item.id as string) ? 'id 重复' : undefined);
+		if (problem) {
+			problems.push(`${label}：${problem}`);
+			return;
+		}
+		seen.add(item.id as string);
+		result.push(normalize<ReferenceItem>(item, now));
+	});
+	return result;
+}
+
+// 校验存储数据的结构，返回有效的部分和每个无效项的位置及原因
+export function validateStore(value: unknown, now: string = new Date().toISOString()): { data: ReferenceStoreData; problems: string[] } {
+	if (!isObject(value)) {
+		throw new StoreFormatError('内容不是引用数据');
+	}
+	const problems: string[] = [];
+	const data = emptyStore();
+
+	const boardIds = new Set<string>();
+	(Array.isArray(value.boards) ? value.boards : []).forEach((board: unknown, index: number) => {
+		const label = `boards[${index}]`;
+		const problem = !isObject(board) ? '不是对象' : checkFields(board, BOARD_FIELDS, REQUIRED_BOARD_FIELDS)
+			?? (boardIds.has(board.id as string) ? 'id 重复' : undefined);
+		if (problem || !isObject(board)) {
+			problems.push(`${label}：${problem}`);
+			return;
+		}
+		boardIds.add(board.id as string);
+		data.boards.push(normalize<ReferenceBoard>(board, now));
+	});
+
+	data.references = validateReferences(value.references, 'references', new Set(), problems, now);
+
+	const trashIds = new Set<string>();
+	(Array.isArray(value.trash) ? value.trash : []).forEach((entry: unknown, index: number) => {
+		const label = `trash[${index}]`;
+		const problem = !isObject(entry) ? '不是对象'
+			: checkFields(entry, { id: 'string', title: 'string', deletedAt: 'string' }, ['id', 'title', 'deletedAt'])
+				?? (trashIds.has(entry.id as string) ? 'id 重复' : undefined);
+		if (problem || !isObject(entry)) {
+			problems.push(`${label}：${problem}`);
+			return;
+		}
+		trashIds.add(entry.id as string);
+		const items = validateReferences(entry.items, `${label}.items`, new Set(), problems, now);
+		data.trash.push({ id: entry.id, title: entry.title, deletedAt: entry.deletedAt, items } as TrashEntry);
+	});
+
+	return { data, problems };
+}
+
+// 解析存储文件的内容：识别版本，逐步迁移到当前版本后校验
+export function loadStoreContent(content: string): LoadedStore {
+	let value: unknown;
+	try {
+		value = JSON.parse(content);
+	} catch (error) {
+		throw new StoreFormatError(`不是有效的 JSON：${(error as Error).message}`);
+	}
+	const version = Array.isArray(value) ? 0 : isObject(value) ? (typeof value.version === 'number' ? value.version : 1) : -1;
+	if (version < 0) {
+		throw new StoreFormatError('内容不是引用数据');
+	}
+	if (version > STORE_SCHEMA_VERSION) {
+		throw new StoreFormatError(`由更新版本的扩展写入（格式版本 ${version}），请升级扩展`);
+	}
+	for (const step of MIGRATIONS) {
+		if (step.from >= version) {
+			value = step.migrate(value);
+		}
+	}
+	return { ...validateStore(value), version };
+}
+
+// 存储文件的内容，始终带有当前版本号
+export function serializeStore(data: ReferenceStoreData): string {
+	return JSON.stringify({ version: STORE_SCHEMA_VERSION, ...data }, null, 2);
+}
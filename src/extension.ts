@@ -1,114 +1,170 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
 import { TEMPLATE } from './view/template';
-import { ReferenceItem } from './types/referenct';
-
-// 数据管理类
-class ReferenceDataManager {
-	private references: ReferenceItem[] = [];
-	private storagePath: string;
+import { ReferenceAnnotations } from './view/editorAnnotations';
+import { ReferenceNoteFileSystem } from './view/noteEditor';
+import { renderNoteMarkdown } from './view/noteMarkdown';
+import { ReferenceTreeProvider } from './view/referenceTree';
+import { SnippetDiffProvider } from './view/snippetDiff';
+import { GitRevisionProvider } from './view/gitRevision';
+import { createBoard, deleteBoard, duplicateBoard, pickBoardForAdd, renameBoard, showBoardActions, switchBoard, toggleArchiveBoard } from './view/boardActions';
+import { ReferenceItem, ReferenceStoreKind } from './types/referenct';
+import { filterReferences, parseTags } from './search/referenceQuery';
+import { describeSearchScope, WorkspaceSearchService } from './search/workspaceSearch';
+import { CandidateLocation, describeOffset, LocationPicker } from './search/locationPicker';
+import { ReferenceHealth, ReferenceHealthChecker } from './search/healthCheck';
+import { locateSnippet, SnippetAnchor, SnippetCandidate } from './search/relocate';
+import { enclosingSymbols, formatSymbolPath, resolveSymbolPath } from './search/symbolPath';
+import { loadDocumentSymbols } from './search/symbolAnchor';
+import { CONFIG_SECTION, describeSkippedProblems, getRelocationThreshold, ReferenceDataManager, STORE_LABELS, workspaceRoots } from './data/referenceDataManager';
+import { locationForDocument, ReferenceLocation, referenceUri, uriExists } from './data/referenceUri';
+import { currentRevision } from './data/gitRepository';
+import { detectFormat, DuplicateMode, exportCsv, exportJson, exportMarkdown, findDuplicates, ImportedReferences, parseImport, planImport, rebasePaths, relativizePaths, TRANSFER_FORMATS } from './data/referenceTransfer';
+import { buildDeepLink, DeepLink, DeepLinkError, locateLinkedSnippet, parseDeepLinkQuery, snippetOccurrence } from './link/deepLink';
+import { DeepLinkResolver, preferWorkspaceFolder } from './link/linkResolver';
+import { DeepLinkProvider, OPEN_DEEP_LINK_COMMAND } from './link/linkProvider';
+import { BUILTIN_LINK_FORMATS, BuiltinLinkFormat, formatLink, LinkContext, LinkTemplate, previewSnippet, renderLinkTemplate, toHtmlLink } from './link/linkFormat';
+import { writeRichText } from './link/richClipboard';
+
+// 记录选中片段前后的上下文行数
+const CONTEXT_LINES = 3;
+// 当前工作区是否已提示过复制全局存储中的引用
+const GLOBAL_COPY_OFFERED_KEY = 'fileRefTags.globalCopyOffered';
+
+// 记录选中片段的行号和上下文
+function captureSnippetAnchor(document: vscode.TextDocument, selection: vscode.Selection): SnippetAnchor {
+	const startLine = selection.start.line;
+	// 选区结束于行首时，不计入该行
+	const endLine = selection.end.character === 0 && selection.end.line > startLine
+		? selection.end.line - 1
+		: selection.end.line;
+	const linesText = (from: number, to: number): string => {
+		const lines: string[] = [];
+		for (let i = Math.max(0, from); i <= Math.min(to, document.lineCount - 1); i++) {
+			lines.push(document.lineAt(i).text);
+		}
+		return lines.join('\n');
+	};
+	return {
+		startLine,
+		endLine,
+		contextBefore: linesText(startLine - CONTEXT_LINES, startLine - 1),
+		contextAfter: linesText(endLine + 1, endLine + CONTEXT_LINES)
+	};
+}
 
-	constructor(context: vscode.ExtensionContext) {
-		// 获取存储路径
-		this.storagePath = path.join(context.globalStorageUri.fsPath, 'references.json');
-		// 确保存储目录存在
-		fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
-		// 加载数据
-		this.loadReferences();
+// 片段的默认标题：选区所在最内层符号的名称；语言没有大纲或选区不在任何符号中时，截取片段开头（最多50个字符）
+async function defaultSnippetTitle(document: vscode.TextDocument, selection: vscode.Selection): Promise<string> {
+	const chain = enclosingSymbols(await loadDocumentSymbols(document.uri), selection.start.line);
+	if (chain.length > 0) {
+		return chain[chain.length - 1].name;
 	}
+	const snippet = document.getText(selection);
+	return snippet.substring(0, 50) + (snippet.length > 50 ? '...' : '');
+}
 
-	// 加载引用数据
-	private loadReferences(): void {
-		try {
-			if (fs.existsSync(this.storagePath)) {
-				const data = fs.readFileSync(this.storagePath, 'utf8');
-				this.references = JSON.parse(data);
-			}
-		} catch (error) {
-			console.error('Failed to load references:', error);
-			this.references = [];
-		}
-	}
+// 记录本地文件当前所在的 git 提交；不在仓库中时清除旧的记录
+async function captureGitRevision(location: ReferenceLocation): Promise<Pick<ReferenceItem, 'gitCommit' | 'gitPath'>> {
+	const revision = location.filePath && !location.uri ? await currentRevision(location.filePath) : undefined;
+	return { gitCommit: revision?.commit, gitPath: revision?.gitPath };
+}
 
-	// 保存引用数据
-	private saveReferences(): void {
-		try {
-			fs.writeFileSync(this.storagePath, JSON.stringify(this.references, null, 2), 'utf8');
-		} catch (error) {
-			console.error('Failed to save references:', error);
-		}
-	}
+// 片段出现在多个位置时，选择框中最多列出的候选数
+const MAX_PICK_CANDIDATES = 50;
 
-	// 添加引用项
-	addReference(reference: Omit<ReferenceItem, 'id' | 'createdAt' | 'updatedAt'>): ReferenceItem {
-		const now = new Date().toISOString();
-		const newReference: ReferenceItem = {
-			...reference,
-			id: `ref-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-			createdAt: now,
-			updatedAt: now
-		};
-		this.references.push(newReference);
-		this.saveReferences();
-		return newReference;
+// 打开文件并选中候选位置的文本
+async function revealLocation(location: CandidateLocation): Promise<void> {
+	const textEditor = await vscode.window.showTextDocument(location.uri);
+	if (location.start === undefined || location.end === undefined) {
+		return;
 	}
+	const doc = textEditor.document;
+	const range = new vscode.Range(doc.positionAt(location.start), doc.positionAt(location.end));
+	await vscode.window.showTextDocument(location.uri, { selection: range });
+	// 确保选中的内容可见
+	await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+}
 
-	// 获取所有引用项
-	getReferences(): ReferenceItem[] {
-		return [...this.references];
-	}
+// 复制链接的几种路径形式
+type LinkMode = 'snippetOnly' | 'fileNameOnly' | 'fileNameAndSnippet' | 'parentDirAndSnippet' | 'workspacePathAndSnippet';
 
-	// 更新引用项顺序
-	updateOrder(newOrder: string[]): void {
-		const newReferences: ReferenceItem[] = [];
-		newOrder.forEach(id => {
-			const ref = this.references.find(r => r.id === id);
-			if (ref) {
-				newReferences.push(ref);
-			}
-		});
-		// 添加未在新顺序中的引用项
-		this.references.forEach(ref => {
-			if (!newOrder.includes(ref.id)) {
-				newReferences.push(ref);
-			}
-		});
-		this.references = newReferences;
-		this.saveReferences();
-	}
+const LINK_MODES: { mode: LinkMode; label: string }[] = [
+	{ mode: 'snippetOnly', label: '仅代码片段' },
+	{ mode: 'fileNameOnly', label: '仅文件名' },
+	{ mode: 'fileNameAndSnippet', label: '文件名+代码片段' },
+	{ mode: 'parentDirAndSnippet', label: '父级文件夹+文件名+代码片段' },
+	{ mode: 'workspacePathAndSnippet', label: '项目级路径+代码片段' }
+];
 
-	// 删除引用项
-	deleteReference(id: string): void {
-		this.references = this.references.filter(r => r.id !== id);
-		this.saveReferences();
+// 复制链接时的输出格式：内置格式或用户模板
+type LinkFormatChoice = { format: BuiltinLinkFormat } | { template: LinkTemplate };
+
+// 读取用户定义的链接模板，忽略不完整的项
+function getLinkTemplates(): LinkTemplate[] {
+	const templates = vscode.workspace.getConfiguration(CONFIG_SECTION).get<LinkTemplate[]>('copyLink.templates', []);
+	return Array.isArray(templates) ? templates.filter(t => t && typeof t.name === 'string' && typeof t.template === 'string') : [];
+}
+
+// 复制链接命令默认使用的格式，可以是内置格式或模板名称
+function getDefaultLinkFormat(): LinkFormatChoice {
+	const name = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('copyLink.format', 'url');
+	const builtin = BUILTIN_LINK_FORMATS.find(f => f.format === name);
+	if (builtin) {
+		return { format: builtin.format };
 	}
+	const template = getLinkTemplates().find(t => t.name === name);
+	return template ? { template } : { format: 'url' };
+}
+
+function renderLinkChoice(choice: LinkFormatChoice, context: LinkContext): string {
+	return 'template' in choice ? renderLinkTemplate(choice.template.template, context) : formatLink(choice.format, context);
+}
 
-	// 更新引用项标题
-	updateReferenceTitle(id: string, title: string): void {
-		const reference = this.references.find(r => r.id === id);
-		if (reference) {
-			reference.title = title;
-			reference.updatedAt = new Date().toISOString();
-			this.saveReferences();
+// 按格式把链接写入剪贴板
+async function copyLinkToClipboard(choice: LinkFormatChoice, context: LinkContext): Promise<void> {
+	if ('format' in choice && choice.format === 'rich') {
+		if (!await writeRichText(toHtmlLink(context), context.url)) {
+			await vscode.env.clipboard.writeText(context.url);
+			vscode.window.showWarningMessage('当前系统不支持写入富文本，已复制纯文本链接');
+			return;
 		}
+	} else {
+		await vscode.env.clipboard.writeText(renderLinkChoice(choice, context));
 	}
+	vscode.window.showInformationMessage('链接已复制到剪贴板');
+}
 
-	// 获取存储路径
-	getStoragePath(): string {
-		return this.storagePath;
-	}
+// 片段已变化时的提示文案
+function describeDrift(candidate: SnippetCandidate): string {
+	return `代码片段已发生变化，已跳转到最相似的位置（相似度 ${Math.round(candidate.score * 100)}%）`;
 }
 
 // Webview视图提供器
 class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 	private _webviewView?: vscode.WebviewView;
 	private _dataManager: ReferenceDataManager;
-
-	constructor(private readonly _extensionUri: vscode.Uri, dataManager: ReferenceDataManager) {
+	private _searchService: WorkspaceSearchService;
+	private _locationPicker: LocationPicker;
+	private _healthChecker: ReferenceHealthChecker;
+	private _snippetDiff: SnippetDiffProvider;
+	// 最近一次检查发现的问题，按引用项id索引
+	private _health = new Map<string, ReferenceHealth>();
+	private _verifying = false;
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		dataManager: ReferenceDataManager,
+		searchService: WorkspaceSearchService,
+		locationPicker: LocationPicker,
+		snippetDiff: SnippetDiffProvider
+	) {
 		this._dataManager = dataManager;
+		this._searchService = searchService;
+		this._locationPicker = locationPicker;
+		this._snippetDiff = snippetDiff;
+		this._healthChecker = new ReferenceHealthChecker(searchService);
 	}
 
 	resolveWebviewView(
@@ -128,6 +184,9 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 		// Set the webview HTML content
 		webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+		// 面板打开时在后台检查所有引用
+		this.verifyReferences(false);
+
 		// Handle messages from the webview
 		webviewView.webview.onDidReceiveMessage(
 			message => {
@@ -140,11 +199,44 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 						this._sendReferences();
 						return;
 					case 'deleteReference':
-						this._dataManager.deleteReference(message.id);
+						this.deleteReference(message.id);
+						return;
+					case 'addGroup':
+						this.addGroup(message.parentId);
+						return;
+					case 'toggleGroup':
+						this._dataManager.setGroupCollapsed(message.id, message.collapsed);
+						return;
+					case 'moveItem':
+						this._dataManager.moveToGroup(message.id, message.parentId || undefined, message.beforeId || undefined);
 						this._sendReferences();
 						return;
 					case 'jumpToReference':
-						this._jumpToReference(message.id);
+						this.jumpToReference(message.id);
+						return;
+					case 'filterReferences':
+						this._sendFilterResult(message.query);
+						return;
+					case 'editTags':
+						this._editTags(message.id);
+						return;
+					case 'editNote':
+						vscode.commands.executeCommand('file-ref-tags.editNote', message.id);
+						return;
+					case 'openAtRecordedCommit':
+						vscode.commands.executeCommand('file-ref-tags.openAtRecordedCommit', message.id);
+						return;
+					case 'verifyReferences':
+						this.verifyReferences(true);
+						return;
+					case 'repairReference':
+						this._repairReference(message.id);
+						return;
+					case 'reanchorReference':
+						this._reanchorReference(message.id);
+						return;
+					case 'compareSnippet':
+						this.compareSnippet(message.id);
 						return;
 					case 'showStorageLocation':
 						this._showStorageLocation();
@@ -153,6 +245,28 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 						this._dataManager.updateReferenceTitle(message.id, message.title);
 						this._sendReferences();
 						return;
+					case 'moveReference':
+						this._moveReference(message.id);
+						return;
+					case 'switchStore':
+						this._switchStore(message.store);
+						return;
+					case 'switchBoard':
+						this.switchBoard(message.boardId);
+						return;
+					case 'restoreTrash':
+						this.restoreFromTrash(message.id);
+						return;
+					case 'deleteTrash':
+						this._dataManager.deleteFromTrash(message.id);
+						this._sendReferences();
+						return;
+					case 'emptyTrash':
+						this.emptyTrash();
+						return;
+					case 'boardActions':
+						showBoardActions(this._dataManager).then(() => this.notifyUpdate());
+						return;
 				}
 			},
 			undefined,
@@ -171,49 +285,255 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 	// 发送引用数据到webview
 	private _sendReferences(): void {
 		if (this._webviewView) {
+			const references = this._dataManager.getReferences();
+			const noteDisplay = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>('notes.display', 'expanded');
 			this._webviewView.webview.postMessage({
 				command: 'updateReferences',
-				references: this._dataManager.getReferences()
+				references,
+				store: this._dataManager.getStoreKind(),
+				availableStores: this._dataManager.getAvailableStores(),
+				boards: this._dataManager.getBoards(),
+				activeBoard: this._dataManager.getActiveBoard().id,
+				trash: this._dataManager.getTrash().map(entry => ({ id: entry.id, title: entry.title, count: entry.items.length, deletedAt: entry.deletedAt })),
+				health: Object.fromEntries(this._health),
+				noteDisplay,
+				notes: noteDisplay === 'expanded'
+					? Object.fromEntries(references.filter(r => r.comment).map(r => [r.id, renderNoteMarkdown(r.comment!)]))
+					: {}
 			});
 		}
 	}
 
+	// 检查所有引用，interactive 为 true 时显示可取消的进度和结果汇总
+	async verifyReferences(interactive: boolean): Promise<void> {
+		if (this._verifying) {
+			if (interactive) {
+				vscode.window.showInformationMessage('正在检查引用，请稍候');
+			}
+			return;
+		}
+
+		this._verifying = true;
+		try {
+			const references = this._dataManager.getReferences();
+			const threshold = getRelocationThreshold();
+			let cancelled = false;
+			const health = interactive
+				? await vscode.window.withProgress({
+					location: vscode.ProgressLocation.Notification,
+					title: '正在检查引用...',
+					cancellable: true
+				}, async (progress, token) => {
+					const results = await this._healthChecker.checkAll(references, threshold, token, progress);
+					cancelled = token.isCancellationRequested;
+					return results;
+				})
+				: await this._healthChecker.checkAll(references, threshold);
+			if (cancelled) {
+				return;
+			}
+
+			this._health = health;
+			this._sendReferences();
+			if (interactive) {
+				if (health.size === 0) {
+					vscode.window.showInformationMessage('所有引用均有效');
+				} else {
+					vscode.window.showWarningMessage(`发现 ${health.size} 个有问题的引用，已在面板中标记`);
+				}
+			}
+		} catch (error) {
+			console.error('Failed to verify references:', error);
+			if (interactive) {
+				vscode.window.showErrorMessage('检查引用失败');
+			}
+		} finally {
+			this._verifying = false;
+		}
+	}
+
+	// 重新检查单个引用项
+	private async _recheck(id: string): Promise<void> {
+		const reference = this._dataManager.getReferences().find(r => r.id === id);
+		const health = reference ? await this._healthChecker.check(reference, getRelocationThreshold()) : undefined;
+		if (health) {
+			this._health.set(id, health);
+		} else {
+			this._health.delete(id);
+		}
+		this._sendReferences();
+	}
+
+	// 修复有问题的引用项
+	private async _repairReference(id: string): Promise<void> {
+		const reference = this._dataManager.getReferences().find(r => r.id === id);
+		const health = this._health.get(id)
+			?? (reference?.orphaned ? { issue: 'missing-file', message: '文件已被删除' } as ReferenceHealth : undefined);
+		if (!reference || !health) {
+			return;
+		}
+
+		try {
+			switch (health.issue) {
+				case 'missing-file': {
+					// 按文件名在工作区中查找，找不到时让用户手动选择
+					const fileName = path.basename(reference.filePath || '');
+					const files = fileName
+						? await vscode.workspace.findFiles(`**/${fileName}`, '**/node_modules/**', MAX_PICK_CANDIDATES)
+						: [];
+					let uri: vscode.Uri | undefined;
+					if (files.length > 0) {
+						const picked = await vscode.window.showQuickPick(
+							files.map(file => ({ label: vscode.workspace.asRelativePath(file), file })),
+							{ placeHolder: '选择该引用的新文件位置' }
+						);
+						uri = picked?.file;
+					} else {
+						uri = (await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: '选择文件' }))?.[0];
+					}
+					if (!uri) {
+						return;
+					}
+					const location = locationForDocument(uri);
+					if (typeof location === 'string') {
+						vscode.window.showErrorMessage(location);
+						return;
+					}
+					this._dataManager.updateReference(id, { ...location, orphaned: undefined });
+					break;
+				}
+				case 'drifted': {
+					// 接受当前最相似的文本
+					const doc = await vscode.workspace.openTextDocument(referenceUri(reference)!);
+					const candidate = locateSnippet(doc.getText(), reference.snippet!, reference, getRelocationThreshold());
+					if (!candidate) {
+						break;
+					}
+					const selection = new vscode.Selection(doc.positionAt(candidate.start), doc.positionAt(candidate.end));
+					this._dataManager.updateReference(id, {
+						snippet: candidate.text,
+						...captureSnippetAnchor(doc, selection),
+						...await captureGitRevision(reference)
+					});
+					break;
+				}
+				case 'not-unique': {
+					// 选择其中一处，改为文件+片段引用
+					const result = await this._searchService.findSnippetWithProgress(reference.snippet!, MAX_PICK_CANDIDATES);
+					const picked = result.cancelled
+						? undefined
+						: await this._locationPicker.pick(undefined, result.matches, '选择要保留的位置，引用将改为"文件+片段"类型');
+					const location = picked && locationForDocument(picked.uri);
+					if (!location || typeof location === 'string') {
+						return;
+					}
+					this._dataManager.updateReference(id, { type: 'file-snippet', ...location, ...await captureGitRevision(location) });
+					break;
+				}
+				case 'missing-snippet':
+					// 片段已无法自动找回，跳转到记录的位置，由用户选中新片段后重新锚定
+					await this.jumpToReference(id);
+					vscode.window.showInformationMessage('无法自动修复：请在编辑器中选中新的代码片段，然后点击"重新锚定"');
+					return;
+			}
+		} catch (error) {
+			console.error('Failed to repair reference:', error);
+			vscode.window.showErrorMessage('修复引用失败');
+		}
+		await this._recheck(id);
+	}
+
+	// 将引用项重新锚定到当前编辑器的文件和选中内容
+	private async _reanchorReference(id: string): Promise<void> {
+		const reference = this._dataManager.getReferences().find(r => r.id === id);
+		if (!reference) {
+			return;
+		}
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			vscode.window.showErrorMessage('没有打开的文件');
+			return;
+		}
+
+		const document = editor.document;
+		const location = locationForDocument(document.uri);
+		if (typeof location === 'string') {
+			vscode.window.showErrorMessage(location);
+			return;
+		}
+		if (reference.type === 'file') {
+			this._dataManager.updateReference(id, { ...location, orphaned: undefined });
+		} else {
+			const selection = editor.selection;
+			if (selection.isEmpty) {
+				vscode.window.showErrorMessage('请先选中代码片段');
+				return;
+			}
+			this._dataManager.updateReference(id, {
+				...location,
+				orphaned: undefined,
+				snippet: document.getText(selection),
+				...captureSnippetAnchor(document, selection),
+				...await captureGitRevision(location)
+			});
+		}
+		vscode.window.showInformationMessage('已重新锚定到当前选中内容');
+		await this._recheck(id);
+	}
+
+	// 发送搜索结果（命中的引用项id）到webview
+	private _sendFilterResult(query: string): void {
+		if (this._webviewView) {
+			this._webviewView.webview.postMessage({
+				command: 'filterResult',
+				query,
+				ids: filterReferences(this._dataManager.getReferences(), query).map(r => r.id)
+			});
+		}
+	}
+
+	// 编辑引用项的标签
+	private async _editTags(id: string): Promise<void> {
+		const reference = this._dataManager.getReferences().find(r => r.id === id);
+		if (!reference) {
+			return;
+		}
+
+		const input = await vscode.window.showInputBox({
+			prompt: '请输入标签，多个标签用逗号或空格分隔',
+			placeHolder: '例如：todo, auth',
+			value: (reference.tags || []).join(', ')
+		});
+		if (input === undefined) {
+			return;
+		}
+
+		this._dataManager.updateReferenceTags(id, parseTags(input));
+		this._sendReferences();
+	}
+
 	// 跳转到引用位置
-	private async _jumpToReference(id: string): Promise<void> {
+	async jumpToReference(id: string): Promise<void> {
 		const references = this._dataManager.getReferences();
 		const reference = references.find(r => r.id === id);
 		if (!reference) {
 			return;
 		}
 
+		// 本地文件或记录的完整 URI（远程、虚拟文件系统等）
+		const uri = referenceUri(reference);
 		try {
 			switch (reference.type) {
 				case 'file':
 					// 直接跳转到文件
-					if (reference.filePath) {
-						const uri = vscode.Uri.file(reference.filePath);
+					if (uri) {
 						await vscode.window.showTextDocument(uri);
 					}
 					break;
 				case 'file-snippet':
 					// 跳转到文件并搜索代码片段
-					if (reference.filePath && reference.snippet) {
-						const uri = vscode.Uri.file(reference.filePath);
-						const textEditor = await vscode.window.showTextDocument(uri);
-						const doc = textEditor.document;
-						// 搜索代码片段
-						const text = doc.getText();
-						const index = text.indexOf(reference.snippet);
-						if (index !== -1) {
-							const startPosition = doc.positionAt(index);
-							const endPosition = doc.positionAt(index + reference.snippet.length);
-							const range = new vscode.Range(startPosition, endPosition);
-							await vscode.window.showTextDocument(uri, { selection: range });
-							// 确保选中的内容可见
-							await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-						} else {
-							vscode.window.showWarningMessage('代码片段已不存在于文件中');
-						}
+					if (uri && reference.snippet) {
+						await this._revealSnippetInFile(reference, uri, reference.snippet);
 					}
 					break;
 				case 'global-snippet':
@@ -221,51 +541,28 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 					if (reference.snippet) {
 						// 使用与添加引用时相同的搜索方式
 						try {
-							console.log('开始搜索代码片段:', reference.snippet);
-							// 先获取当前工作区的所有文件
-							const files = await vscode.workspace.findFiles('**/*', '**/node_modules/**', 10000);
-							console.log('搜索文件数量:', files.length);
-
-							let matchCount = 0;
-							let matchFile: vscode.Uri | undefined;
-							let matchStartPosition: vscode.Position | undefined;
-							let matchEndPosition: vscode.Position | undefined;
-
-							// 遍历文件，查找包含代码片段的文件
-							for (const file of files) {
-								try {
-									const doc = await vscode.workspace.openTextDocument(file);
-									const text = doc.getText();
-									const index = text.indexOf(reference.snippet);
-									if (index !== -1) {
-										matchCount++;
-										matchFile = file;
-										matchStartPosition = doc.positionAt(index);
-										matchEndPosition = doc.positionAt(index + reference.snippet.length);
-										// 如果超过1个匹配，就可以提前结束
-										if (matchCount > 1) {
-											break;
-										}
-									}
-								} catch (error) {
-									// 忽略无法打开的文件
-									console.error('无法打开文件:', file.fsPath, error);
-									continue;
-								}
+							const result = await this._searchService.findSnippetWithProgress(reference.snippet, MAX_PICK_CANDIDATES);
+							if (result.cancelled) {
+								return;
 							}
 
-							console.log('匹配数量:', matchCount);
-
-							if (matchCount === 1 && matchFile && matchStartPosition && matchEndPosition) {
-								const textEditor = await vscode.window.showTextDocument(matchFile);
-								const range = new vscode.Range(matchStartPosition, matchEndPosition);
-								await vscode.window.showTextDocument(matchFile, { selection: range });
-								// 确保选中的内容可见
-								await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-							} else if (matchCount === 0) {
-								vscode.window.showWarningMessage('未找到匹配的代码片段');
+							if (result.matches.length > 0) {
+								// 片段已不是全局唯一时让用户选择，优先使用引用项所在工作区文件夹中的匹配
+								const picked = await this._locationPicker.pick(
+									`ref:${reference.id}`,
+									preferWorkspaceFolder(result.matches, reference.workspaceFolder),
+									'代码片段出现在多个位置，请选择要跳转的位置'
+								);
+								if (picked) {
+									await revealLocation(picked);
+								}
 							} else {
-								vscode.window.showWarningMessage('代码片段已不是全局唯一');
+								// 片段已不存在时，回到添加时记录的文件中重新定位
+								if (uri && await uriExists(uri)) {
+									await this._revealSnippetInFile(reference, uri, reference.snippet);
+								} else {
+									vscode.window.showWarningMessage(`未找到匹配的代码片段（${describeSearchScope(result)}）`);
+								}
 							}
 						} catch (error) {
 							console.error('Global search failed:', error);
@@ -273,9 +570,18 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 						}
 					}
 					break;
+				case 'symbol':
+					// 按符号路径在文件中重新查找，找不到时按记录的片段定位
+					if (uri) {
+						await this._revealSymbol(reference, uri);
+					}
+					break;
 				case 'comment':
 					// 注释项，无跳转功能
 					break;
+				case 'group':
+					// 分组，无跳转功能
+					break;
 			}
 		} catch (error) {
 			console.error('Failed to jump to reference:', error);
@@ -283,6 +589,250 @@ class FileRefTagsViewProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
+	// 定位符号引用：按记录的符号路径查找，符号已无法解析时退回到记录的代码片段
+	private async _revealSymbol(reference: ReferenceItem, uri: vscode.Uri): Promise<void> {
+		const symbol = reference.symbolPath
+			? resolveSymbolPath(await loadDocumentSymbols(uri), reference.symbolPath, reference.symbolKind)
+			: undefined;
+		if (symbol) {
+			const textEditor = await vscode.window.showTextDocument(uri, { selection: symbol.selectionRange });
+			textEditor.revealRange(symbol.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+			return;
+		}
+		if (!reference.snippet) {
+			await vscode.window.showTextDocument(uri);
+			return;
+		}
+		vscode.window.showWarningMessage(`未找到符号 ${formatSymbolPath(reference.symbolPath || [])}，已按记录的代码片段定位`);
+		await this._revealSnippetInFile(reference, uri, reference.snippet);
+	}
+
+	// 在文件中定位引用的代码片段，找不到时回退到记录的行号
+	private async _revealSnippetInFile(reference: ReferenceItem, uri: vscode.Uri, snippet: string): Promise<void> {
+		const textEditor = await vscode.window.showTextDocument(uri);
+		const doc = textEditor.document;
+		// 搜索代码片段，多处匹配时结合记录的行号和上下文选择，文本变化时按相似度重新定位
+		const candidate = locateSnippet(doc.getText(), snippet, reference, getRelocationThreshold());
+		let range: vscode.Range;
+		if (candidate) {
+			range = new vscode.Range(doc.positionAt(candidate.start), doc.positionAt(candidate.end));
+		} else if (reference.startLine !== undefined && reference.startLine < doc.lineCount) {
+			const endLine = Math.min(reference.endLine ?? reference.startLine, doc.lineCount - 1);
+			range = new vscode.Range(reference.startLine, 0, endLine, doc.lineAt(endLine).text.length);
+			vscode.window.showWarningMessage('代码片段已不存在于文件中，已跳转到记录的行号', '对比').then(action => {
+				if (action === '对比') {
+					this.compareSnippet(reference.id);
+				}
+			});
+		} else {
+			vscode.window.showWarningMessage('代码片段已不存在于文件中');
+			return;
+		}
+
+		await vscode.window.showTextDocument(uri, { selection: range });
+		// 确保选中的内容可见
+		await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+		if (candidate && candidate.score < 1) {
+			this._offerSnippetUpdate(reference, candidate);
+		}
+	}
+
+	// 删除引用项，非空分组需要确认是否保留其中的内容
+	async deleteReference(id: string): Promise<void> {
+		const reference = this._dataManager.getReferences().find(r => r.id === id);
+		if (reference?.type === 'group' && this._dataManager.getDescendantIds(id).length > 0) {
+			const action = await vscode.window.showWarningMessage(
+				`分组"${reference.title}"不为空，如何处理其中的内容？`,
+				{ modal: true },
+				'移到上一级',
+				'全部删除'
+			);
+			if (action === '移到上一级') {
+				this._dataManager.ungroup(id);
+			} else if (action === '全部删除') {
+				this._dataManager.deleteReference(id);
+			} else {
+				return;
+			}
+		} else {
+			this._dataManager.deleteReference(id);
+		}
+		this._health.delete(id);
+		this._sendReferences();
+	}
+
+	// 撤销上一步面板操作
+	undo(): void {
+		const label = this._dataManager.undo();
+		if (!label) {
+			vscode.window.showInformationMessage('没有可以撤销的操作');
+			return;
+		}
+		this._sendReferences();
+		this.verifyReferences(false);
+		vscode.window.setStatusBarMessage(`已撤销：${label}`, 3000);
+	}
+
+	// 重做被撤销的面板操作
+	redo(): void {
+		const label = this._dataManager.redo();
+		if (!label) {
+			vscode.window.showInformationMessage('没有可以重做的操作');
+			return;
+		}
+		this._sendReferences();
+		this.verifyReferences(false);
+		vscode.window.setStatusBarMessage(`已重做：${label}`, 3000);
+	}
+
+	// 从回收站恢复
+	restoreFromTrash(id: string): void {
+		if (this._dataManager.restoreFromTrash(id)) {
+			this._sendReferences();
+			this.verifyReferences(false);
+		}
+	}
+
+	// 确认后清空回收站
+	async emptyTrash(): Promise<void> {
+		const count = this._dataManager.getTrash().length;
+		if (count === 0) {
+			vscode.window.showInformationMessage('回收站是空的');
+			return;
+		}
+		const confirm = await vscode.window.showWarningMessage(
+			`确定要永久删除回收站中的 ${count} 项吗？`,
+			{ modal: true },
+			'清空'
+		);
+		if (confirm === '清空') {
+			this._dataManager.emptyTrash();
+			this._sendReferences();
+		}
+	}
+
+	// 新建分组
+	async addGroup(parentId?: string): Promise<void> {
+		const title = await vscode.window.showInputBox({
+			prompt: '请输入分组名称',
+			placeHolder: '例如：认证流程',
+			validateInput: (value) => {
+				if (!value || value.trim().length === 0) {
+					return '分组名称不能为空';
+				}
+				return null;
+			}
+		});
+
+		if (title) {
+			this._dataManager.addGroup(title.trim(), parentId);
+			this._sendReferences();
+		}
+	}
+
+	// 片段已变化时，询问是否将引用更新为当前文本
+	private async _offerSnippetUpdate(reference: ReferenceItem, candidate: SnippetCandidate): Promise<void> {
+		const action = await vscode.window.showInformationMessage(describeDrift(candidate), '更新引用片段', '对比');
+		if (action === '更新引用片段') {
+			this._dataManager.updateReferenceSnippet(reference.id, candidate.text);
+			this._sendReferences();
+		} else if (action === '对比') {
+			await this.compareSnippet(reference.id);
+		}
+	}
+
+	// 对比引用记录的片段和文件中的当前内容，由用户决定是否用当前内容更新引用
+	async compareSnippet(id: string): Promise<void> {
+		const comparison = await this._snippetDiff.compare(id);
+		if (!comparison) {
+			return;
+		}
+		const action = await vscode.window.showInformationMessage(
+			comparison.fromLines
+				? '文件中找不到相似的片段，右侧为记录行号处的当前内容'
+				: '右侧为文件中与该引用最相似的当前内容',
+			'接受当前文本',
+			'保留原片段'
+		);
+		if (action === '接受当前文本') {
+			await this.acceptSnippetChange(id);
+		} else if (action === '保留原片段') {
+			await this.keepOriginalSnippet(id);
+		}
+	}
+
+	// 用对比中的当前内容更新引用项的片段和位置
+	async acceptSnippetChange(id: string): Promise<void> {
+		const comparison = await this._snippetDiff.finish(id);
+		if (!comparison) {
+			return;
+		}
+		const { document, selection, text } = comparison;
+		if (document.getText(selection) !== text) {
+			vscode.window.showWarningMessage('文件在对比后已被修改，请重新对比');
+			return;
+		}
+		this._dataManager.updateReference(id, {
+			snippet: text,
+			orphaned: undefined,
+			...captureSnippetAnchor(document, selection),
+			...await captureGitRevision(comparison.reference)
+		});
+		vscode.window.showInformationMessage('已用当前内容更新引用片段');
+		await this._recheck(id);
+	}
+
+	// 保留引用记录的片段，关闭对比
+	async keepOriginalSnippet(id: string): Promise<void> {
+		await this._snippetDiff.finish(id);
+	}
+
+	// 将引用项移动到其他存储位置
+	private async _moveReference(id: string): Promise<void> {
+		const current = this._dataManager.getStoreKind();
+		const targets = this._dataManager.getAvailableStores().filter(kind => kind !== current);
+		if (targets.length === 0) {
+			vscode.window.showWarningMessage('没有其他可用的存储位置，请先打开工作区');
+			return;
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			targets.map(store => ({ label: STORE_LABELS[store], store })),
+			{ placeHolder: '选择要移动到的存储位置' }
+		);
+		if (!picked) {
+			return;
+		}
+
+		if (this._dataManager.moveReference(id, picked.store)) {
+			this._sendReferences();
+			vscode.window.showInformationMessage(`已移动到${picked.label}存储`);
+		}
+	}
+
+	// 切换当前使用的存储位置（写入配置，由配置监听刷新面板）
+	private async _switchStore(store: ReferenceStoreKind): Promise<void> {
+		const target = vscode.workspace.workspaceFolders
+			? vscode.ConfigurationTarget.Workspace
+			: vscode.ConfigurationTarget.Global;
+		await vscode.workspace.getConfiguration(CONFIG_SECTION).update('storage', store, target);
+	}
+
+	// 切换看板后刷新面板，并在后台检查新看板中的引用
+	switchBoard(boardId: string): void {
+		if (this._dataManager.switchBoard(boardId)) {
+			this._sendReferences();
+			this.verifyReferences(false);
+		}
+	}
+
+	// 引用项的文件路径发生变化后，重新检查这些引用项
+	async recheck(ids: string[]): Promise<void> {
+		for (const id of ids) {
+			await this._recheck(id);
+		}
+	}
+
 	// 通知webview更新引用数据
 	notifyUpdate(): void {
 		this._sendReferences();
@@ -326,50 +876,143 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// 初始化数据管理器
 	const dataManager = new ReferenceDataManager(context);
+	context.subscriptions.push(dataManager);
+
+	// 初始化全局片段搜索服务
+	const searchService = new WorkspaceSearchService();
+	context.subscriptions.push(searchService);
+
+	// 文件重命名、移动或删除时，同步更新引用
+	const syncFileOperation = (ids: string[]) => {
+		if (ids.length > 0) {
+			webviewViewProvider.recheck(ids);
+		}
+	};
+	context.subscriptions.push(
+		vscode.workspace.onDidRenameFiles(e => {
+			syncFileOperation(e.files
+				.filter(file => file.oldUri.scheme === 'file' && file.newUri.scheme === 'file')
+				.flatMap(file => dataManager.renameFilePaths(file.oldUri.fsPath, file.newUri.fsPath)));
+		}),
+		vscode.workspace.onDidDeleteFiles(e => {
+			syncFileOperation(e.files
+				.filter(uri => uri.scheme === 'file')
+				.flatMap(uri => dataManager.markOrphaned(uri.fsPath)));
+		}),
+		vscode.workspace.onDidCreateFiles(e => {
+			syncFileOperation(e.files
+				.filter(uri => uri.scheme === 'file')
+				.flatMap(uri => dataManager.clearOrphaned(uri.fsPath)));
+		})
+	);
+
+	// 多个候选位置时的选择器，按工作区记住用户的选择
+	const locationPicker = new LocationPicker(context.workspaceState);
 
 	// 创建视图提供器
-	const webviewViewProvider = new FileRefTagsViewProvider(context.extensionUri, dataManager);
+	// 代码片段的对比编辑器
+	const snippetDiff = new SnippetDiffProvider(dataManager);
+	context.subscriptions.push(snippetDiff);
+
+	const webviewViewProvider = new FileRefTagsViewProvider(context.extensionUri, dataManager, searchService, locationPicker, snippetDiff);
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider('file-ref-tags.list-view', webviewViewProvider)
 	);
 
-	// 注册处理URI的逻辑
-	const handleUri = async (uri: vscode.Uri) => {
+	// 旧版本把所有引用保存在全局存储中，现在默认按工作区保存：
+	// 每个工作区第一次使用空的工作区或共享存储时，如果全局存储中有引用，提示复制过来或改用全局存储
+	const offerGlobalReferences = async () => {
+		const store = dataManager.getStoreKind();
+		if (store === 'global' || context.workspaceState.get<boolean>(GLOBAL_COPY_OFFERED_KEY)
+			|| dataManager.countStoreReferences(store) > 0) {
+			return;
+		}
+		const count = dataManager.countStoreReferences('global');
+		if (count === 0) {
+			return;
+		}
+		await context.workspaceState.update(GLOBAL_COPY_OFFERED_KEY, true);
+		const action = await vscode.window.showInformationMessage(
+			`引用列表现在按工作区分别保存，当前${STORE_LABELS[store]}存储为空。全局存储中有之前添加的 ${count} 项引用`,
+			'复制到当前工作区',
+			'改用全局存储'
+		);
+		if (action === '复制到当前工作区') {
+			const copied = dataManager.copyFromStore('global');
+			webviewViewProvider.notifyUpdate();
+			vscode.window.showInformationMessage(`已复制 ${copied} 项引用，全局存储中的内容保持不变`);
+		} else if (action === '改用全局存储') {
+			await vscode.workspace.getConfiguration(CONFIG_SECTION).update('storage', 'global', vscode.ConfigurationTarget.Workspace);
+		}
+	};
+	offerGlobalReferences();
+
+	// 存储位置配置变化或工作区变化时，重新加载数据
+	const reloadStore = () => {
+		dataManager.reloadFromConfiguration();
+		webviewViewProvider.notifyUpdate();
+		offerGlobalReferences();
+	};
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration(`${CONFIG_SECTION}.storage`) || e.affectsConfiguration(`${CONFIG_SECTION}.sharedFilePath`)) {
+				reloadStore();
+			} else if (e.affectsConfiguration(`${CONFIG_SECTION}.notes.display`)) {
+				webviewViewProvider.notifyUpdate();
+			}
+		}),
+		vscode.workspace.onDidChangeWorkspaceFolders(reloadStore),
+		// 其他窗口或手动修改了存储文件
+		dataManager.onDidChangeExternally(() => webviewViewProvider.notifyUpdate())
+	);
+
+	// 深度链接的解析，URI处理和文档中的链接共用
+	const linkResolver = new DeepLinkResolver(dataManager, searchService);
+
+	// 打开深度链接，query 为链接的查询部分
+	const openDeepLink = async (query: string) => {
 		try {
-			// 解析URL查询参数
-			const query = new URLSearchParams(uri.query);
-			const filePath = query.get('filePath');
-			const snippet = query.get('snippet');
-
-			// 确保至少有一个参数
-			if (!filePath && !snippet) {
-				vscode.window.showErrorMessage('URL缺少必要参数：filePath或snippet');
+			// 解析URL查询参数，兼容旧版本链接
+			const link = parseDeepLinkQuery(query);
+
+			// 链接指向面板中仍存在的引用项时，直接跳转到该引用项
+			if (link.refId && dataManager.getReferences().some(r => r.id === link.refId)) {
+				await webviewViewProvider.jumpToReference(link.refId);
 				return;
 			}
 
-			// 解码参数
-			const decodedFilePath = filePath ? decodeURIComponent(filePath) : undefined;
-			const decodedSnippet = snippet ? decodeURIComponent(snippet) : undefined;
-
 			// 根据参数组合决定跳转模式
-			if (decodedFilePath && decodedSnippet) {
+			if (link.filePath && link.snippet) {
 				// 模式1：file-snippet，跳转到文件并搜索代码片段
-				await jumpToFileAndSnippet(decodedFilePath, decodedSnippet);
-			} else if (decodedFilePath) {
+				await jumpToFileAndSnippet(link.filePath, link.snippet, link);
+			} else if (link.filePath) {
 				// 模式2：file，直接跳转到文件
-				await jumpToFile(decodedFilePath);
-			} else if (decodedSnippet) {
+				await jumpToFile(link.filePath, link);
+			} else if (link.snippet) {
 				// 模式3：global-snippet，全局搜索代码片段
-				await jumpToGlobalSnippet(decodedSnippet);
+				await jumpToGlobalSnippet(link.snippet, link);
+			} else {
+				vscode.window.showWarningMessage('链接指向的引用项已不存在');
 			}
 		} catch (error) {
+			if (error instanceof DeepLinkError) {
+				vscode.window.showErrorMessage(error.message);
+				return;
+			}
 			console.error('Failed to handle URI:', error);
 			vscode.window.showErrorMessage(`处理URL失败：${error instanceof Error ? error.message : String(error)}`);
 		}
 	};
 
+	// 按链接中的行号和列号提示定位光标
+	const revealLine = async (editor: vscode.TextEditor, line: number, column?: number) => {
+		const position = editor.document.validatePosition(new vscode.Position(line - 1, (column ?? 1) - 1));
+		editor.selection = new vscode.Selection(position, position);
+		editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+	};
+
 	// 跳转到文件
-	const jumpToFile = async (filePath: string) => {
+	const jumpToFile = async (filePath: string, link: Partial<DeepLink> = {}) => {
 		try {
 			let fileUri: vscode.Uri;
 
@@ -384,25 +1027,28 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				// 查找匹配的文件
-				const matches: vscode.Uri[] = [];
-				for (const folder of workspaceFolders) {
-					// 直接匹配文件名
-					const files = await vscode.workspace.findFiles(`**/${filePath}`, '**/node_modules/**');
-					matches.push(...files);
-				}
-
+				const matches = await linkResolver.findFiles(filePath, link.workspace);
 				if (matches.length === 0) {
 					vscode.window.showErrorMessage(`未找到文件：${filePath}`);
 					return;
-				} else if (matches.length > 1) {
-					vscode.window.showWarningMessage(`找到多个匹配文件，将打开第一个：${filePath}`);
 				}
 
-				fileUri = matches[0];
+				// 多个匹配文件时让用户选择
+				const picked = await locationPicker.pick(
+					`file:${filePath}`,
+					matches.map(uri => ({ uri })),
+					`找到多个匹配文件，请选择要打开的文件：${filePath}`
+				);
+				if (!picked) {
+					return;
+				}
+				fileUri = picked.uri;
 			}
 
-			await vscode.window.showTextDocument(fileUri);
+			const textEditor = await vscode.window.showTextDocument(fileUri);
+			if (link.line) {
+				await revealLine(textEditor, link.line, link.column);
+			}
 		} catch (error) {
 			console.error('Failed to jump to file:', error);
 			vscode.window.showErrorMessage(`跳转到文件失败：${error instanceof Error ? error.message : String(error)}`);
@@ -410,7 +1056,7 @@ export function activate(context: vscode.ExtensionContext) {
 	};
 
 	// 跳转到文件并搜索代码片段
-	const jumpToFileAndSnippet = async (filePath: string, snippet: string) => {
+	const jumpToFileAndSnippet = async (filePath: string, snippet: string, link: Partial<DeepLink> = {}) => {
 		try {
 			let fileUri: vscode.Uri;
 
@@ -426,13 +1072,7 @@ export function activate(context: vscode.ExtensionContext) {
 				}
 
 				// 查找匹配的文件，并结合代码片段筛选
-				const matches: vscode.Uri[] = [];
-				for (const folder of workspaceFolders) {
-					// 直接匹配文件名
-					const files = await vscode.workspace.findFiles(`**/${filePath}`, '**/node_modules/**');
-					matches.push(...files);
-				}
-
+				const matches = await linkResolver.findFiles(filePath, link.workspace);
 				if (matches.length === 0) {
 					vscode.window.showErrorMessage(`未找到文件：${filePath}`);
 					return;
@@ -443,16 +1083,15 @@ export function activate(context: vscode.ExtensionContext) {
 				if (matches.length === 1) {
 					targetFileUri = matches[0];
 				} else {
-					vscode.window.showInformationMessage(`找到${matches.length}个匹配文件，正在结合代码片段筛选...`);
-
-					// 遍历每个匹配文件，查找包含代码片段的文件
+					// 收集每个匹配文件中片段的最佳位置，按相似度从高到低排列
+					const candidates: (CandidateLocation & { score: number })[] = [];
 					for (const match of matches) {
 						try {
 							const doc = await vscode.workspace.openTextDocument(match);
 							const text = doc.getText();
-							if (text.includes(snippet)) {
-								targetFileUri = match;
-								break;
+							const candidate = locateLinkedSnippet(text, snippet, link, getRelocationThreshold());
+							if (candidate) {
+								candidates.push({ uri: match, start: candidate.start, end: candidate.end, score: candidate.score, ...describeOffset(text, candidate.start) });
 							}
 						} catch (error) {
 							console.error(`无法打开文件：${match.fsPath}`, error);
@@ -460,12 +1099,22 @@ export function activate(context: vscode.ExtensionContext) {
 						}
 					}
 
-					if (!targetFileUri) {
+					if (candidates.length === 0) {
 						vscode.window.showErrorMessage(`找到${matches.length}个匹配文件，但没有包含指定代码片段的文件：${filePath}`);
 						return;
 					}
 
-					vscode.window.showInformationMessage(`已筛选出包含代码片段的文件：${path.basename(targetFileUri.fsPath)}`);
+					// 有多个文件包含该片段时让用户选择
+					candidates.sort((a, b) => b.score - a.score);
+					const picked = await locationPicker.pick(
+						`link:${filePath}\n${snippet}`,
+						candidates,
+						'代码片段出现在多个文件中，请选择要跳转的位置'
+					);
+					if (!picked) {
+						return;
+					}
+					targetFileUri = picked.uri;
 				}
 
 				fileUri = targetFileUri!;
@@ -473,16 +1122,22 @@ export function activate(context: vscode.ExtensionContext) {
 
 			const textEditor = await vscode.window.showTextDocument(fileUri);
 			const doc = textEditor.document;
-			// 搜索代码片段
-			const text = doc.getText();
-			const index = text.indexOf(snippet);
-			if (index !== -1) {
-				const startPosition = doc.positionAt(index);
-				const endPosition = doc.positionAt(index + snippet.length);
+			// 搜索代码片段，文本变化时按相似度重新定位
+			const candidate = locateLinkedSnippet(doc.getText(), snippet, link, getRelocationThreshold());
+			if (candidate) {
+				const startPosition = doc.positionAt(candidate.start);
+				const endPosition = doc.positionAt(candidate.end);
 				const range = new vscode.Range(startPosition, endPosition);
 				await vscode.window.showTextDocument(fileUri, { selection: range });
 				// 确保选中的内容可见
 				await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+				if (candidate.score < 1) {
+					vscode.window.showInformationMessage(describeDrift(candidate));
+				}
+			} else if (link.line) {
+				// 片段已不存在时，退回到链接记录的行
+				await revealLine(textEditor, link.line, link.column);
+				vscode.window.showWarningMessage(`文件中未找到指定代码片段，已跳转到链接记录的第 ${link.line} 行`);
 			} else {
 				vscode.window.showWarningMessage(`文件中未找到指定代码片段：${fileUri.fsPath}`);
 			}
@@ -493,52 +1148,25 @@ export function activate(context: vscode.ExtensionContext) {
 	};
 
 	// 全局搜索并跳转到代码片段
-	const jumpToGlobalSnippet = async (snippet: string) => {
+	const jumpToGlobalSnippet = async (snippet: string, link: Partial<DeepLink> = {}) => {
 		try {
-			// 先获取当前工作区的所有文件
-			const files = await vscode.workspace.findFiles('**/*', '**/node_modules/**', 10000);
-			console.log('搜索文件数量:', files.length);
-
-			let matchCount = 0;
-			let matchFile: vscode.Uri | undefined;
-			let matchStartPosition: vscode.Position | undefined;
-			let matchEndPosition: vscode.Position | undefined;
-
-			// 遍历文件，查找包含代码片段的文件
-			for (const file of files) {
-				try {
-					const doc = await vscode.workspace.openTextDocument(file);
-					const text = doc.getText();
-					const index = text.indexOf(snippet);
-					if (index !== -1) {
-						matchCount++;
-						matchFile = file;
-						matchStartPosition = doc.positionAt(index);
-						matchEndPosition = doc.positionAt(index + snippet.length);
-						// 如果超过1个匹配，就可以提前结束
-						if (matchCount > 1) {
-							break;
-						}
-					}
-				} catch (error) {
-					// 忽略无法打开的文件
-					console.error('无法打开文件:', file.fsPath, error);
-					continue;
-				}
+			const result = await searchService.findSnippetWithProgress(snippet, MAX_PICK_CANDIDATES);
+			if (result.cancelled) {
+				return;
+			}
+
+			if (result.matches.length === 0) {
+				vscode.window.showWarningMessage(`未找到匹配的代码片段（${describeSearchScope(result)}）`);
+				return;
 			}
 
-			console.log('匹配数量:', matchCount);
+			// 链接指定了工作区文件夹时，只保留其中的匹配
+			const matches = preferWorkspaceFolder(result.matches, link.workspace);
 
-			if (matchCount === 1 && matchFile && matchStartPosition && matchEndPosition) {
-				const textEditor = await vscode.window.showTextDocument(matchFile);
-				const range = new vscode.Range(matchStartPosition, matchEndPosition);
-				await vscode.window.showTextDocument(matchFile, { selection: range });
-				// 确保选中的内容可见
-				await textEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-			} else if (matchCount === 0) {
-				vscode.window.showWarningMessage('未找到匹配的代码片段');
-			} else {
-				vscode.window.showWarningMessage('代码片段已不是全局唯一');
+			// 片段已不是全局唯一时让用户选择
+			const picked = await locationPicker.pick(`snippet:${snippet}`, matches, '代码片段出现在多个位置，请选择要跳转的位置');
+			if (picked) {
+				await revealLocation(picked);
 			}
 		} catch (error) {
 			console.error('Global search failed:', error);
@@ -546,11 +1174,20 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	};
 
+	// 注册处理URI的逻辑
+	const handleUri = (uri: vscode.Uri) => openDeepLink(uri.query);
+
 	// 监听URI激活事件
 	context.subscriptions.push(vscode.window.registerUriHandler({
 		handleUri: handleUri
 	}));
 
+	// 文档中的链接在进程内打开，不经过系统的URI跳转
+	context.subscriptions.push(
+		vscode.commands.registerCommand(OPEN_DEEP_LINK_COMMAND, (query: string) => openDeepLink(query)),
+		new DeepLinkProvider(linkResolver)
+	);
+
 	// The command has been defined in the package.json file
 	// Now provide the implementation of the command with registerCommand
 	// The commandId parameter must match the command field in package.json
@@ -571,14 +1208,25 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const document = editor.document;
-		const filePath = document.uri.fsPath;
-		const fileName = path.basename(filePath);
+		const location = locationForDocument(document.uri);
+		if (typeof location === 'string') {
+			vscode.window.showErrorMessage(location);
+			return;
+		}
+		const fileName = path.basename(location.filePath!);
+
+		// 添加到当前看板，或由用户选择看板
+		const boardId = await pickBoardForAdd(dataManager);
+		if (!boardId) {
+			return;
+		}
 
 		// 创建引用项
 		dataManager.addReference({
+			boardId,
 			type: 'file',
 			title: fileName,
-			filePath: filePath
+			...location
 		});
 
 		// 通知webview更新
@@ -603,20 +1251,31 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const document = editor.document;
-		const filePath = document.uri.fsPath;
+		const location = locationForDocument(document.uri);
+		if (typeof location === 'string') {
+			vscode.window.showErrorMessage(location);
+			return;
+		}
 		const snippet = document.getText(selection);
 
-		// 截取代码片段作为标题（最多50个字符）
-		const snippetPreview = snippet.substring(0, 50) + (snippet.length > 50 ? '...' : '');
-		const fileName = path.basename(filePath);
-		const title = `${fileName}: ${snippetPreview}`;
+		const fileName = path.basename(location.filePath!);
+		const title = `${fileName}: ${await defaultSnippetTitle(document, selection)}`;
+
+		// 添加到当前看板，或由用户选择看板
+		const boardId = await pickBoardForAdd(dataManager);
+		if (!boardId) {
+			return;
+		}
 
 		// 创建引用项
 		dataManager.addReference({
+			boardId,
 			type: 'file-snippet',
 			title: title,
-			filePath: filePath,
-			snippet: snippet
+			...location,
+			snippet: snippet,
+			...captureSnippetAnchor(document, selection),
+			...await captureGitRevision(location)
 		});
 
 		// 通知webview更新
@@ -626,6 +1285,57 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(addFileAndSnippetDisposable);
 
+	// 注册添加光标所在符号到面板的命令：记录从外到内的符号路径，标题为符号名称
+	const addSymbolDisposable = vscode.commands.registerCommand('file-ref-tags.addSymbol', async () => {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			vscode.window.showErrorMessage('没有打开的文件');
+			return;
+		}
+
+		const document = editor.document;
+		const location = locationForDocument(document.uri);
+		if (typeof location === 'string') {
+			vscode.window.showErrorMessage(location);
+			return;
+		}
+
+		const chain = enclosingSymbols(await loadDocumentSymbols(document.uri), editor.selection.active.line);
+		if (chain.length === 0) {
+			vscode.window.showErrorMessage('光标处没有可识别的符号，请确认已安装提供该语言大纲的扩展');
+			return;
+		}
+		const symbol = chain[chain.length - 1];
+		const symbolPath = chain.map(s => s.name);
+
+		// 添加到当前看板，或由用户选择看板
+		const boardId = await pickBoardForAdd(dataManager);
+		if (!boardId) {
+			return;
+		}
+
+		// 同时记录符号名称所在的行，符号无法解析时按该片段定位
+		const declaration = document.lineAt(symbol.selectionRange.start.line).range;
+		const selection = new vscode.Selection(declaration.start, declaration.end);
+		dataManager.addReference({
+			boardId,
+			type: 'symbol',
+			title: symbol.name,
+			...location,
+			symbolPath,
+			symbolKind: symbol.kind,
+			snippet: document.getText(selection),
+			...captureSnippetAnchor(document, selection),
+			...await captureGitRevision(location)
+		});
+
+		// 通知webview更新
+		webviewViewProvider.notifyUpdate();
+		vscode.window.showInformationMessage(`已添加符号到面板：${formatSymbolPath(symbolPath)}`);
+	});
+
+	context.subscriptions.push(addSymbolDisposable);
+
 	// 注册添加当前选中的全局唯一片段到面板的命令
 	const addGlobalUniqueSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.addGlobalUniqueSnippet', async () => {
 		const editor = vscode.window.activeTextEditor;
@@ -641,58 +1351,47 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const snippet = editor.document.getText(selection);
+		const location = locationForDocument(editor.document.uri);
+		if (typeof location === 'string') {
+			vscode.window.showErrorMessage(location);
+			return;
+		}
 
 		// 全局搜索代码片段
 		try {
-			console.log('开始搜索代码片段:', snippet);
-			// 使用更可靠的方式进行全局搜索
-			// 先获取当前工作区的所有文件
-			const files = await vscode.workspace.findFiles('**/*', '**/node_modules/**', 10000);
-			console.log('搜索文件数量:', files.length);
-
-			let matchCount = 0;
-			let matchFile: vscode.Uri | undefined;
-
-			// 遍历文件，查找包含代码片段的文件
-			for (const file of files) {
-				try {
-					const doc = await vscode.workspace.openTextDocument(file);
-					const text = doc.getText();
-					if (text.includes(snippet)) {
-						matchCount++;
-						matchFile = file;
-						// 如果超过1个匹配，就可以提前结束
-						if (matchCount > 1) {
-							break;
-						}
-					}
-				} catch (error) {
-					// 忽略无法打开的文件
-					console.error('无法打开文件:', file.fsPath, error);
-					continue;
-				}
+			const result = await searchService.findSnippetWithProgress(snippet, 2);
+			if (result.cancelled) {
+				return;
 			}
 
-			console.log('匹配数量:', matchCount);
-
-			if (matchCount !== 1) {
-				vscode.window.showErrorMessage('选中的代码片段不是全局唯一的');
+			if (result.matches.length !== 1) {
+				vscode.window.showErrorMessage(`选中的代码片段不是全局唯一的（${describeSearchScope(result)}）`);
 				return;
 			}
 
-			// 截取代码片段作为标题（最多50个字符）
-			const title = snippet.substring(0, 50) + (snippet.length > 50 ? '...' : '');
+			const title = await defaultSnippetTitle(editor.document, selection);
+
+			// 添加到当前看板，或由用户选择看板
+			const boardId = await pickBoardForAdd(dataManager);
+			if (!boardId) {
+				return;
+			}
 
 			// 创建引用项
+			// 同时记录片段所在文件和位置，片段被修改后可据此重新定位
 			dataManager.addReference({
+				boardId,
 				type: 'global-snippet',
 				title: title,
-				snippet: snippet
+				...location,
+				snippet: snippet,
+				...captureSnippetAnchor(editor.document, selection),
+				...await captureGitRevision(location)
 			});
 
 			// 通知webview更新
 			webviewViewProvider.notifyUpdate();
-			vscode.window.showInformationMessage('已添加当前选中的全局唯一片段到面板');
+			vscode.window.showInformationMessage(`已添加当前选中的全局唯一片段到面板（${describeSearchScope(result)}）`);
 		} catch (error) {
 			console.error('搜索代码片段失败:', error);
 			vscode.window.showErrorMessage('搜索代码片段失败');
@@ -716,8 +1415,15 @@ export function activate(context: vscode.ExtensionContext) {
 		});
 
 		if (comment) {
+			// 添加到当前看板，或由用户选择看板
+			const boardId = await pickBoardForAdd(dataManager);
+			if (!boardId) {
+				return;
+			}
+
 			// 创建引用项
 			dataManager.addReference({
+				boardId,
 				type: 'comment',
 				title: comment.trim()
 			});
@@ -730,172 +1436,572 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(addCommentDisposable);
 
-	// 辅助函数：生成 vscode:// 链接
-	const generateVscodeLink = (filePath?: string, snippet?: string): string => {
-		const scheme = vscode.env.uriScheme || 'vscode';
-		const baseUrl = `${scheme}://lirentech.file-ref-tags`;
-		const params = new URLSearchParams();
+	// 注册新建分组的命令
+	const addGroupDisposable = vscode.commands.registerCommand('file-ref-tags.addGroup', async () => {
+		await webviewViewProvider.addGroup();
+	});
 
-		if (filePath) {
-			params.append('filePath', filePath);
-		}
-		if (snippet) {
-			params.append('snippet', snippet);
-		}
+	context.subscriptions.push(addGroupDisposable);
 
-		const queryString = params.toString();
-		return queryString ? `${baseUrl}?${queryString}` : baseUrl;
+	// 注册撤销、重做和清空回收站的命令
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-ref-tags.undo', () => webviewViewProvider.undo()),
+		vscode.commands.registerCommand('file-ref-tags.redo', () => webviewViewProvider.redo()),
+		vscode.commands.registerCommand('file-ref-tags.emptyTrash', () => webviewViewProvider.emptyTrash())
+	);
+
+	// 注册看板相关的命令
+	const boardCommand = (action: (dataManager: ReferenceDataManager) => Promise<unknown>) => async () => {
+		await action(dataManager);
+		webviewViewProvider.notifyUpdate();
 	};
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-ref-tags.switchBoard', boardCommand(switchBoard)),
+		vscode.commands.registerCommand('file-ref-tags.createBoard', boardCommand(createBoard)),
+		vscode.commands.registerCommand('file-ref-tags.renameBoard', boardCommand(renameBoard)),
+		vscode.commands.registerCommand('file-ref-tags.duplicateBoard', boardCommand(duplicateBoard)),
+		vscode.commands.registerCommand('file-ref-tags.archiveBoard', boardCommand(toggleArchiveBoard)),
+		vscode.commands.registerCommand('file-ref-tags.deleteBoard', boardCommand(deleteBoard))
+	);
 
-	// 辅助函数：获取相对于工作区的路径
-	const getWorkspaceRelativePath = (filePath: string): string | undefined => {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
-			return undefined;
-		}
+	// 注册跳转到引用的命令：与面板搜索框使用相同的搜索规则
+	const jumpToReferenceDisposable = vscode.commands.registerCommand('file-ref-tags.jumpToReference', async () => {
+		const references = dataManager.getReferences().filter(r => r.type !== 'group');
+		const toItem = (reference: ReferenceItem) => ({
+			label: reference.title,
+			description: (reference.tags || []).map(tag => `#${tag}`).join(' '),
+			detail: reference.filePath ? vscode.workspace.asRelativePath(reference.filePath) : undefined,
+			// 由我们自己的搜索规则过滤，不使用快速选择框的内置过滤
+			alwaysShow: true,
+			id: reference.id
+		});
 
-		// 查找匹配的工作区文件夹
-		for (const folder of workspaceFolders) {
-			const folderPath = folder.uri.fsPath;
-			if (filePath.startsWith(folderPath)) {
-				// 获取相对于工作区的路径
-				const relativePath = path.relative(folderPath, filePath);
-				return relativePath;
+		const quickPick = vscode.window.createQuickPick<ReturnType<typeof toItem>>();
+		quickPick.placeholder = '搜索标题、代码片段、文件路径或标签，支持 type:file 和 tag:xxx';
+		quickPick.matchOnDescription = false;
+		quickPick.items = references.map(toItem);
+		quickPick.onDidChangeValue(value => {
+			quickPick.items = filterReferences(references, value).map(toItem);
+		});
+		quickPick.onDidAccept(() => {
+			const picked = quickPick.selectedItems[0];
+			quickPick.hide();
+			if (picked) {
+				webviewViewProvider.jumpToReference(picked.id);
 			}
+		});
+		quickPick.onDidHide(() => quickPick.dispose());
+		quickPick.show();
+	});
+
+	context.subscriptions.push(jumpToReferenceDisposable);
+
+	// 引用项的备注在编辑器中以 Markdown 文件编辑，保存后刷新面板
+	const noteFileSystem = new ReferenceNoteFileSystem(dataManager);
+	context.subscriptions.push(
+		noteFileSystem,
+		noteFileSystem.onDidSaveNote(() => webviewViewProvider.notifyUpdate())
+	);
+
+	// 注册编辑备注的命令：从面板调用时传入引用项id，否则选择当前看板中的引用项
+	const editNoteDisposable = vscode.commands.registerCommand('file-ref-tags.editNote', async (id?: string) => {
+		if (!id) {
+			const picked = await vscode.window.showQuickPick(
+				dataManager.getReferences().map(reference => ({
+					label: reference.title,
+					description: reference.comment ? '有备注' : undefined,
+					id: reference.id
+				})),
+				{ placeHolder: '选择要编辑备注的引用项', matchOnDescription: true }
+			);
+			id = picked?.id;
+		}
+		if (id) {
+			await noteFileSystem.open(id);
 		}
+	});
 
-		return undefined;
-	};
+	context.subscriptions.push(editNoteDisposable);
+
+	// 注册对比代码片段的命令：选择当前看板中的片段引用，打开对比编辑器
+	const compareSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.compareSnippet', async () => {
+		const picked = await vscode.window.showQuickPick(
+			dataManager.getReferences()
+				.filter(reference => reference.snippet && (reference.type === 'file-snippet' || reference.type === 'global-snippet'))
+				.map(reference => ({
+					label: reference.title,
+					description: reference.filePath ? vscode.workspace.asRelativePath(reference.filePath) : undefined,
+					id: reference.id
+				})),
+			{ placeHolder: '选择要与当前内容对比的片段引用', matchOnDescription: true }
+		);
+		if (picked) {
+			await webviewViewProvider.compareSnippet(picked.id);
+		}
+	});
 
-	// 注册复制链接（仅代码片段）的命令
-	const copyLinkSnippetOnlyDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkSnippetOnly', async () => {
-		const editor = vscode.window.activeTextEditor;
-		if (!editor) {
-			vscode.window.showErrorMessage('没有打开的文件');
-			return;
+	// 对比编辑器标题栏中的接受和保留操作
+	const snippetComparisonCommand = (run: (id: string) => Promise<void>) => async () => {
+		const id = snippetDiff.activeComparisonId();
+		if (id) {
+			await run(id);
 		}
+	};
+	context.subscriptions.push(
+		compareSnippetDisposable,
+		vscode.commands.registerCommand('file-ref-tags.acceptSnippetChange', snippetComparisonCommand(id => webviewViewProvider.acceptSnippetChange(id))),
+		vscode.commands.registerCommand('file-ref-tags.keepOriginalSnippet', snippetComparisonCommand(id => webviewViewProvider.keepOriginalSnippet(id)))
+	);
 
-		const selection = editor.selection;
-		if (selection.isEmpty) {
-			vscode.window.showErrorMessage('请先选中代码片段');
-			return;
+	// 引用项添加时所在的 git 提交：查看当时的文件内容，复制代码托管网站上的永久链接
+	const gitRevision = new GitRevisionProvider();
+	context.subscriptions.push(gitRevision);
+
+	// 从面板调用时传入引用项id，否则从当前看板中选择
+	const pickGitReference = async (filter: (reference: ReferenceItem) => boolean, placeHolder: string): Promise<ReferenceItem | undefined> => {
+		const picked = await vscode.window.showQuickPick(
+			dataManager.getReferences().filter(filter).map(reference => ({
+				label: reference.title,
+				description: reference.gitCommit ? reference.gitCommit.substring(0, 7) : undefined,
+				detail: reference.filePath ? vscode.workspace.asRelativePath(reference.filePath) : undefined,
+				reference
+			})),
+			{ placeHolder, matchOnDescription: true, matchOnDetail: true }
+		);
+		return picked?.reference;
+	};
+
+	const copyPermalink = async (reference: ReferenceItem) => {
+		const url = await gitRevision.permalinkForReference(reference);
+		if (url) {
+			await vscode.env.clipboard.writeText(url);
+			vscode.window.showInformationMessage('网页永久链接已复制到剪贴板');
 		}
+	};
 
-		const snippet = editor.document.getText(selection);
-		const link = generateVscodeLink(undefined, snippet);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-ref-tags.openAtRecordedCommit', async (id?: string) => {
+			const reference = id
+				? dataManager.getReference(id)
+				: await pickGitReference(r => !!r.gitCommit, '选择要查看记录时内容的引用项');
+			if (reference) {
+				await gitRevision.openAtRecordedCommit(reference);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.copyPermalink', async (id?: string) => {
+			const reference = id
+				? dataManager.getReference(id)
+				: await pickGitReference(r => !!r.filePath && !r.uri, '选择要复制网页永久链接的引用项');
+			if (reference) {
+				await copyPermalink(reference);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.copySelectionPermalink', async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				vscode.window.showErrorMessage('没有打开的文件');
+				return;
+			}
+			const url = await gitRevision.permalinkForSelection(editor.document, editor.selection);
+			if (url) {
+				await vscode.env.clipboard.writeText(url);
+				vscode.window.showInformationMessage('网页永久链接已复制到剪贴板');
+			}
+		})
+	);
 
-		await vscode.env.clipboard.writeText(link);
-		vscode.window.showInformationMessage('链接已复制到剪贴板');
+	// 注册清除已记住的跳转位置的命令
+	const clearRememberedLocationsDisposable = vscode.commands.registerCommand('file-ref-tags.clearRememberedLocations', async () => {
+		await locationPicker.clear();
+		vscode.window.showInformationMessage('已清除记住的跳转位置');
 	});
 
-	context.subscriptions.push(copyLinkSnippetOnlyDisposable);
+	context.subscriptions.push(clearRememberedLocationsDisposable);
 
-	// 注册复制链接（仅文件名）的命令
-	const copyLinkFileNameOnlyDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkFileNameOnly', async () => {
-		const editor = vscode.window.activeTextEditor;
-		if (!editor) {
-			vscode.window.showErrorMessage('没有打开的文件');
-			return;
+	// 注册检查所有引用的命令
+	const verifyReferencesDisposable = vscode.commands.registerCommand('file-ref-tags.verifyReferences', async () => {
+		await webviewViewProvider.verifyReferences(true);
+	});
+
+	context.subscriptions.push(verifyReferencesDisposable);
+
+	// 在编辑器中标记被引用的代码
+	const annotations = new ReferenceAnnotations(context.extensionUri, dataManager);
+	context.subscriptions.push(annotations);
+
+	// 注册切换编辑器引用标记的命令
+	const toggleAnnotationsDisposable = vscode.commands.registerCommand('file-ref-tags.toggleAnnotations', async () => {
+		await annotations.toggle();
+	});
+
+	context.subscriptions.push(toggleAnnotationsDisposable);
+
+	// 辅助函数：生成 vscode:// 链接
+	const generateVscodeLink = (filePath?: string, snippet?: string, hints: Omit<DeepLink, 'filePath' | 'snippet' | 'version'> = {}): string => {
+		return buildDeepLink({ filePath, snippet, ...hints }, vscode.env.uriScheme || 'vscode');
+	};
+
+	// 辅助函数：选中片段的行号、列号和出现序号，用于在链接中区分重复的片段
+	const getSelectionHints = (document: vscode.TextDocument, selection: vscode.Selection) => {
+		const snippet = document.getText(selection);
+		return {
+			line: selection.start.line + 1,
+			column: selection.start.character > 0 ? selection.start.character + 1 : undefined,
+			occurrence: snippetOccurrence(document.getText(), snippet, document.offsetAt(selection.start))
+		};
+	};
+
+	// 辅助函数：获取相对于所在工作区文件夹的路径（嵌套的工作区文件夹以最内层为准）
+	const getWorkspaceRelativePath = (uri: vscode.Uri): string | undefined => {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		return folder ? path.posix.relative(folder.uri.path, uri.path) : undefined;
+	};
+
+	// 辅助函数：打开了多个工作区文件夹时，链接中需要带上的文件夹名称
+	const getWorkspaceHint = (uri: vscode.Uri): string | undefined => {
+		if ((vscode.workspace.workspaceFolders?.length || 0) < 2) {
+			return undefined;
 		}
+		return vscode.workspace.getWorkspaceFolder(uri)?.name;
+	};
 
+	// 辅助函数：按路径形式收集当前选区的链接信息，无法生成时返回错误提示
+	const buildLinkContext = (mode: LinkMode, editor: vscode.TextEditor): LinkContext | string => {
 		const document = editor.document;
+		const selection = editor.selection;
 		const filePath = document.uri.fsPath;
 		const fileName = path.basename(filePath);
-		const link = generateVscodeLink(fileName, undefined);
+		// URI 路径使用正斜杠（URL友好）
+		const relativePath = getWorkspaceRelativePath(document.uri);
+		const snippet = selection.isEmpty ? undefined : document.getText(selection);
+		if (mode !== 'fileNameOnly' && !snippet) {
+			return '请先选中代码片段';
+		}
 
-		await vscode.env.clipboard.writeText(link);
-		vscode.window.showInformationMessage('链接已复制到剪贴板');
-	});
+		let linkPath: string | undefined;
+		switch (mode) {
+			case 'fileNameOnly':
+			case 'fileNameAndSnippet':
+				linkPath = fileName;
+				break;
+			case 'parentDirAndSnippet':
+				linkPath = `${path.basename(path.dirname(filePath))}/${fileName}`;
+				break;
+			case 'workspacePathAndSnippet':
+				if (!relativePath) {
+					return '无法获取项目级路径，请确保文件在工作区内';
+				}
+				linkPath = relativePath;
+				break;
+		}
 
-	context.subscriptions.push(copyLinkFileNameOnlyDisposable);
+		const linkSnippet = mode === 'fileNameOnly' ? undefined : snippet;
+		const line = linkSnippet ? selection.start.line + 1 : undefined;
+		const snippetPreview = linkSnippet ? previewSnippet(linkSnippet) : undefined;
+		// 项目级路径在多根工作区中带上所在的文件夹名称
+		const url = generateVscodeLink(linkPath, linkSnippet, {
+			...(linkPath && linkSnippet ? getSelectionHints(document, selection) : {}),
+			workspace: mode === 'workspacePathAndSnippet' ? getWorkspaceHint(document.uri) : undefined
+		});
+		return {
+			url,
+			title: linkPath ? (line ? `${linkPath}:${line}` : linkPath) : snippetPreview || fileName,
+			fileName,
+			relativePath,
+			line,
+			snippet: linkSnippet,
+			snippetPreview
+		};
+	};
 
-	// 注册复制链接（文件名+代码片段）的命令
-	const copyLinkFileNameAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkFileNameAndSnippet', async () => {
+	// 辅助函数：按默认格式复制指定形式的链接
+	const copyLink = async (mode: LinkMode) => {
 		const editor = vscode.window.activeTextEditor;
 		if (!editor) {
 			vscode.window.showErrorMessage('没有打开的文件');
 			return;
 		}
 
-		const selection = editor.selection;
-		if (selection.isEmpty) {
-			vscode.window.showErrorMessage('请先选中代码片段');
+		const context = buildLinkContext(mode, editor);
+		if (typeof context === 'string') {
+			vscode.window.showErrorMessage(context);
 			return;
 		}
+		await copyLinkToClipboard(getDefaultLinkFormat(), context);
+	};
 
-		const document = editor.document;
-		const filePath = document.uri.fsPath;
-		const fileName = path.basename(filePath);
-		const snippet = document.getText(selection);
-		const link = generateVscodeLink(fileName, snippet);
+	// 注册复制链接（仅代码片段）的命令
+	const copyLinkSnippetOnlyDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkSnippetOnly', () => copyLink('snippetOnly'));
 
-		await vscode.env.clipboard.writeText(link);
-		vscode.window.showInformationMessage('链接已复制到剪贴板');
-	});
+	context.subscriptions.push(copyLinkSnippetOnlyDisposable);
+
+	// 注册复制链接（仅文件名）的命令
+	const copyLinkFileNameOnlyDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkFileNameOnly', () => copyLink('fileNameOnly'));
+
+	context.subscriptions.push(copyLinkFileNameOnlyDisposable);
+
+	// 注册复制链接（文件名+代码片段）的命令
+	const copyLinkFileNameAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkFileNameAndSnippet', () => copyLink('fileNameAndSnippet'));
 
 	context.subscriptions.push(copyLinkFileNameAndSnippetDisposable);
 
 	// 注册复制链接（父级文件夹+文件名+代码片段）的命令
-	const copyLinkParentDirAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkParentDirAndSnippet', async () => {
+	const copyLinkParentDirAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkParentDirAndSnippet', () => copyLink('parentDirAndSnippet'));
+
+	context.subscriptions.push(copyLinkParentDirAndSnippetDisposable);
+
+	// 注册复制链接（项目级路径+代码片段）的命令
+	const copyLinkWorkspacePathAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkWorkspacePathAndSnippet', () => copyLink('workspacePathAndSnippet'));
+
+	context.subscriptions.push(copyLinkWorkspacePathAndSnippetDisposable);
+
+	// 注册复制链接（选择形式和格式）的命令，选择框中预览复制的内容
+	const copyLinkAsDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkAs', async () => {
 		const editor = vscode.window.activeTextEditor;
 		if (!editor) {
 			vscode.window.showErrorMessage('没有打开的文件');
 			return;
 		}
 
-		const selection = editor.selection;
-		if (selection.isEmpty) {
-			vscode.window.showErrorMessage('请先选中代码片段');
-			return;
+		const choices: { label: string; choice: LinkFormatChoice }[] = [
+			...BUILTIN_LINK_FORMATS.map(f => ({ label: f.label, choice: { format: f.format } as LinkFormatChoice })),
+			...getLinkTemplates().map(template => ({ label: template.name, choice: { template } as LinkFormatChoice }))
+		];
+		type CopyLinkItem = vscode.QuickPickItem & { context?: LinkContext; choice?: LinkFormatChoice };
+		const items: CopyLinkItem[] = [];
+		for (const { mode, label } of LINK_MODES) {
+			const context = buildLinkContext(mode, editor);
+			if (typeof context === 'string') {
+				continue;
+			}
+			items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+			for (const { label: formatLabel, choice } of choices) {
+				items.push({
+					label: formatLabel,
+					description: label,
+					detail: renderLinkChoice(choice, context).replace(/\r?\n/g, ' ⏎ '),
+					context,
+					choice
+				});
+			}
 		}
 
-		const document = editor.document;
-		const filePath = document.uri.fsPath;
-		const dirName = path.basename(path.dirname(filePath));
-		const fileName = path.basename(filePath);
-		const parentDirAndFileName = `${dirName}/${fileName}`;
-		const snippet = document.getText(selection);
-		const link = generateVscodeLink(parentDirAndFileName, snippet);
-
-		await vscode.env.clipboard.writeText(link);
-		vscode.window.showInformationMessage('链接已复制到剪贴板');
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择要复制的链接形式和格式', matchOnDescription: true, matchOnDetail: true });
+		if (picked?.context && picked.choice) {
+			await copyLinkToClipboard(picked.choice, picked.context);
+		}
 	});
 
-	context.subscriptions.push(copyLinkParentDirAndSnippetDisposable);
+	context.subscriptions.push(copyLinkAsDisposable);
+
+	// 辅助函数：引用项的链接信息，链接带有引用项id，面板中仍存在该项时直接跳转
+	const buildReferenceLinkContext = (reference: ReferenceItem): LinkContext => {
+		const uri = referenceUri(reference);
+		const relativePath = uri ? getWorkspaceRelativePath(uri) : undefined;
+		const linkPath = reference.type === 'global-snippet' ? undefined : relativePath || (reference.filePath && path.basename(reference.filePath));
+		const line = reference.startLine !== undefined ? reference.startLine + 1 : undefined;
+		return {
+			url: generateVscodeLink(linkPath, reference.snippet, {
+				line: reference.snippet ? line : undefined,
+				workspace: uri && relativePath ? getWorkspaceHint(uri) : undefined,
+				refId: reference.id
+			}),
+			title: reference.title,
+			fileName: reference.filePath ? path.basename(reference.filePath) : undefined,
+			relativePath,
+			line,
+			snippet: reference.snippet,
+			snippetPreview: reference.snippet ? previewSnippet(reference.snippet) : undefined
+		};
+	};
 
-	// 注册复制链接（项目级路径+代码片段）的命令
-	const copyLinkWorkspacePathAndSnippetDisposable = vscode.commands.registerCommand('file-ref-tags.copyLinkWorkspacePathAndSnippet', async () => {
-		const editor = vscode.window.activeTextEditor;
-		if (!editor) {
-			vscode.window.showErrorMessage('没有打开的文件');
+	// 原生树视图，fileRefTags.view 为 tree 时代替面板显示；菜单传入引用项，快捷键调用时使用选中项
+	const referenceTree = new ReferenceTreeProvider(dataManager);
+	context.subscriptions.push(
+		referenceTree,
+		vscode.commands.registerCommand('file-ref-tags.tree.jump', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (reference) {
+				await webviewViewProvider.jumpToReference(reference.id);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.editTitle', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (!reference) {
+				return;
+			}
+			const title = await vscode.window.showInputBox({
+				prompt: '请输入新的标题',
+				value: reference.title,
+				validateInput: input => input.trim() ? undefined : '标题不能为空'
+			});
+			if (title?.trim() && title.trim() !== reference.title) {
+				dataManager.updateReferenceTitle(reference.id, title.trim());
+				webviewViewProvider.notifyUpdate();
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.copyLink', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (reference) {
+				await copyLinkToClipboard(getDefaultLinkFormat(), buildReferenceLinkContext(reference));
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.compareSnippet', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (reference) {
+				await webviewViewProvider.compareSnippet(reference.id);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.openAtRecordedCommit', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (reference) {
+				await gitRevision.openAtRecordedCommit(reference);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.copyPermalink', async (item?: ReferenceItem) => {
+			const [reference] = referenceTree.resolveTargets(item);
+			if (reference) {
+				await copyPermalink(reference);
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.delete', async (item?: ReferenceItem, items?: ReferenceItem[]) => {
+			for (const reference of referenceTree.resolveTargets(item, items)) {
+				await webviewViewProvider.deleteReference(reference.id);
+			}
+		})
+	);
+
+	// 导出和导入引用列表：导出时工作区中的文件使用相对路径，导入时按当前工作区重新解析
+
+	// 选中的项，分组连同其中所有层级的子项，按面板中的顺序
+	const withDescendants = (selected: ReferenceItem[]): ReferenceItem[] => {
+		const ids = new Set(selected.flatMap(r => [r.id, ...dataManager.getDescendantIds(r.id)]));
+		return dataManager.getReferences().filter(r => ids.has(r.id));
+	};
+
+	const exportReferences = async (references: ReferenceItem[]) => {
+		if (references.length === 0) {
+			vscode.window.showInformationMessage('没有可导出的引用项');
 			return;
 		}
-
-		const selection = editor.selection;
-		if (selection.isEmpty) {
-			vscode.window.showErrorMessage('请先选中代码片段');
+		const picked = await vscode.window.showQuickPick(
+			TRANSFER_FORMATS.map(option => ({ label: option.label, description: `.${option.extension}`, option })),
+			{ placeHolder: `选择导出 ${references.length} 项的格式` }
+		);
+		if (!picked) {
+			return;
+		}
+		const board = dataManager.getActiveBoard();
+		const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: folder ? vscode.Uri.joinPath(folder, `${board.name}.${picked.option.extension}`) : undefined,
+			filters: { [picked.option.label]: [picked.option.extension] },
+			saveLabel: '导出'
+		});
+		if (!target) {
 			return;
 		}
 
-		const document = editor.document;
-		const filePath = document.uri.fsPath;
-		const workspaceRelativePath = getWorkspaceRelativePath(filePath);
-
-		if (!workspaceRelativePath) {
-			vscode.window.showErrorMessage('无法获取项目级路径，请确保文件在工作区内');
+		// 深度链接在改为相对路径之前生成
+		const links = new Map(references.map(r => [r.id, buildReferenceLinkContext(r).url]));
+		const relative = relativizePaths(references, workspaceRoots());
+		const content = picked.option.format === 'json' ? exportJson(relative)
+			: picked.option.format === 'csv' ? exportCsv(relative)
+				: exportMarkdown(board.name, relative, reference => links.get(reference.id));
+		try {
+			await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+		} catch (error) {
+			console.error('Failed to export references:', error);
+			vscode.window.showErrorMessage(`导出失败：${(error as Error).message}`);
 			return;
 		}
+		vscode.window.showInformationMessage(`已导出 ${references.length} 项到 ${path.basename(target.fsPath)}`);
+	};
 
-		const snippet = document.getText(selection);
-		// 将路径分隔符统一为正斜杠（URL友好）
-		const normalizedPath = workspaceRelativePath.replace(/\\/g, '/');
-		const link = generateVscodeLink(normalizedPath, snippet);
+	const importReferences = async () => {
+		const [file] = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: '导入',
+			filters: { '引用列表': ['json', 'md', 'markdown', 'csv'], '所有文件': ['*'] }
+		}) || [];
+		if (!file) {
+			return;
+		}
+		let imported: ImportedReferences;
+		try {
+			const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+			imported = parseImport(content, detectFormat(file.path, content));
+		} catch (error) {
+			console.error('Failed to import references:', error);
+			vscode.window.showErrorMessage(`无法导入 ${path.basename(file.path)}：${(error as Error).message}`);
+			return;
+		}
+		if (imported.problems.length > 0) {
+			console.error('Invalid references skipped:', imported.problems);
+			vscode.window.showWarningMessage(describeSkippedProblems(imported.problems));
+		}
+		if (imported.references.length === 0) {
+			vscode.window.showWarningMessage(`${path.basename(file.path)} 中没有可导入的引用项`);
+			return;
+		}
 
-		await vscode.env.clipboard.writeText(link);
-		vscode.window.showInformationMessage('链接已复制到剪贴板');
-	});
+		const board = dataManager.getActiveBoard();
+		const existing = dataManager.getReferences();
+		const mode = existing.length === 0 ? { replace: false } : await vscode.window.showQuickPick([
+			{ label: '合并到当前看板', description: `保留已有的 ${existing.length} 项`, replace: false },
+			{ label: '替换当前看板的内容', description: '已有的项放入回收站，可以撤销', replace: true }
+		], { placeHolder: `导入 ${imported.references.length} 项到「${board.name}」` });
+		if (!mode) {
+			return;
+		}
+		let items = rebasePaths(imported.references, workspaceRoots());
+		const duplicates = mode.replace ? 0 : findDuplicates(items, existing).size;
+		if (duplicates > 0) {
+			const choice = await vscode.window.showQuickPick([
+				{ label: '跳过重复项', description: '重复分组中的项放入已有的分组', mode: 'skip' as DuplicateMode },
+				{ label: '重命名重复项', description: '在名称后加序号', mode: 'rename' as DuplicateMode }
+			], { placeHolder: `有 ${duplicates} 项与当前看板中已有的项重复` });
+			if (!choice) {
+				return;
+			}
+			items = planImport(items, existing, choice.mode);
+		}
+		const count = dataManager.importReferences(items, mode.replace);
+		webviewViewProvider.notifyUpdate();
+		vscode.window.showInformationMessage(`已导入 ${count} 项到「${board.name}」`);
+	};
 
-	context.subscriptions.push(copyLinkWorkspacePathAndSnippetDisposable);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('file-ref-tags.exportReferences', async () => {
+			const references = dataManager.getReferences();
+			const scope = await vscode.window.showQuickPick([
+				{ label: '当前看板的全部引用项', all: true },
+				{ label: '选择要导出的引用项…', description: '选中分组时包含其中的所有项', all: false }
+			], { placeHolder: '选择导出范围' });
+			if (!scope) {
+				return;
+			}
+			if (scope.all) {
+				await exportReferences(references);
+				return;
+			}
+			const selected = await vscode.window.showQuickPick(
+				references.map(reference => ({
+					label: reference.type === 'group' ? `$(folder) ${reference.title}` : reference.title,
+					detail: reference.filePath ? vscode.workspace.asRelativePath(reference.filePath) : undefined,
+					reference
+				})),
+				{ canPickMany: true, placeHolder: '选择要导出的引用项', matchOnDetail: true }
+			);
+			if (selected && selected.length > 0) {
+				await exportReferences(withDescendants(selected.map(s => s.reference)));
+			}
+		}),
+		vscode.commands.registerCommand('file-ref-tags.tree.export', async (item?: ReferenceItem, items?: ReferenceItem[]) => {
+			await exportReferences(withDescendants(referenceTree.resolveTargets(item, items)));
+		}),
+		vscode.commands.registerCommand('file-ref-tags.importReferences', importReferences)
+	);
 }
 
 // This method is called when your extension is deactivated
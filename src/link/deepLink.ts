@@ -0,0 +1,202 @@
+import { locateSnippet, relocateSnippet, SnippetCandidate } from '../search/relocate';
+
+// vscode://lirentech.file-ref-tags 深度链接的解析与生成
+//
+// 链接格式：<scheme>://lirentech.file-ref-tags?<参数>
+//
+// 参数（均可选，但 filePath、snippet、refId 至少需要一个）：
+//   filePath   文件路径：绝对路径、相对于工作区的路径或仅文件名
+//   snippet    代码片段
+//   line       行号提示（从1开始），用于在多处匹配中选择，或在片段已不存在时定位
+//   col        列号提示（从1开始），与 line 一起使用
+//   occurrence 片段在文件中的第几处出现（从1开始），优先于 line
+//   workspace  工作区文件夹名称，多根工作区中限定查找范围
+//   refId      面板中引用项的id，存在时直接跳转到该引用项
+//   v          链接格式版本，缺省表示版本1
+//
+// 版本1（旧链接）使用 URLSearchParams 生成，空格编码为"+"；版本2 使用 encodeURIComponent。
+// 两种版本都能被解析，新链接总是以当前版本生成。
+
+export const LINK_AUTHORITY = 'lirentech.file-ref-tags';
+export const LINK_FORMAT_VERSION = 2;
+
+// 解析后的链接参数
+export interface DeepLink {
+	filePath?: string;
+	snippet?: string;
+	line?: number;
+	column?: number;
+	occurrence?: number;
+	workspace?: string;
+	refId?: string;
+	version: number;
+}
+
+// 链接缺少必要参数时抛出
+export class DeepLinkError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DeepLinkError';
+	}
+}
+
+// 参数名与 DeepLink 字段的对应关系，同时决定生成链接时的参数顺序
+const PARAMS: [keyof DeepLink, string][] = [
+	['filePath', 'filePath'],
+	['snippet', 'snippet'],
+	['line', 'line'],
+	['column', 'col'],
+	['occurrence', 'occurrence'],
+	['workspace', 'workspace'],
+	['refId', 'refId'],
+	['version', 'v']
+];
+
+// 按参数拆分查询字符串
+// 只在"&"后紧跟"参数名="时拆分，这样 VS Code 预先解码过的查询中，片段里的"&"不会截断片段
+function splitQuery(query: string): Map<string, string> {
+	const params = new Map<string, string>();
+	for (const part of query.replace(/^\?/, '').split(/&(?=[A-Za-z][A-Za-z0-9]*=)/)) {
+		const index = part.indexOf('=');
+		if (index > 0 && !params.has(part.substring(0, index))) {
+			params.set(part.substring(0, index), part.substring(index + 1));
+		}
+	}
+	return params;
+}
+
+// 解码参数值，无法解码（例如片段中本身含有"%"）时保留原文
+function decodeValue(value: string, version: number): string {
+	const text = version < 2 ? value.replace(/\+/g, ' ') : value;
+	try {
+		return decodeURIComponent(text);
+	} catch {
+		return text;
+	}
+}
+
+// 解析正整数参数，无效时忽略
+function parsePositiveInteger(value: string | undefined): number | undefined {
+	if (value === undefined || !/^\d+$/.test(value)) {
+		return undefined;
+	}
+	const number = parseInt(value, 10);
+	return number > 0 ? number : undefined;
+}
+
+// 解析链接的查询部分
+export function parseDeepLinkQuery(query: string): DeepLink {
+	const params = splitQuery(query);
+	const version = parsePositiveInteger(params.get('v')) ?? 1;
+	const text = (name: string): string | undefined => {
+		const value = params.get(name);
+		return value ? decodeValue(value, version) || undefined : undefined;
+	};
+
+	const link: DeepLink = {
+		filePath: text('filePath'),
+		snippet: text('snippet'),
+		line: parsePositiveInteger(params.get('line')),
+		column: parsePositiveInteger(params.get('col')),
+		occurrence: parsePositiveInteger(params.get('occurrence')),
+		workspace: text('workspace'),
+		refId: text('refId'),
+		version
+	};
+
+	if (!link.filePath && !link.snippet && !link.refId) {
+		throw new DeepLinkError('URL缺少必要参数：filePath或snippet');
+	}
+	return link;
+}
+
+// 生成链接，scheme 为当前编辑器的 URI scheme（例如 vscode、vscode-insiders、cursor）
+export function buildDeepLink(link: Omit<DeepLink, 'version'>, scheme: string = 'vscode'): string {
+	const values: Partial<Record<keyof DeepLink, string | number | undefined>> = { ...link, version: LINK_FORMAT_VERSION };
+	const query = PARAMS
+		.filter(([field]) => values[field] !== undefined && values[field] !== '')
+		.map(([field, name]) => `${name}=${encodeURIComponent(String(values[field]))}`)
+		.join('&');
+	return `${scheme}://${LINK_AUTHORITY}?${query}`;
+}
+
+// 判断文本是否为本扩展的深度链接
+export function isDeepLink(text: string): boolean {
+	return new RegExp(`^[a-z][a-z0-9+.-]*://${LINK_AUTHORITY.replace(/\./g, '\\.')}(?:/)?\\?`, 'i').test(text);
+}
+
+// 计算 offset 处的片段是文本中第几处出现（从1开始），片段只出现一次时返回 undefined
+export function snippetOccurrence(text: string, snippet: string, offset: number): number | undefined {
+	if (!snippet) {
+		return undefined;
+	}
+	let count = 0;
+	let occurrence: number | undefined;
+	let index = text.indexOf(snippet);
+	while (index !== -1) {
+		count++;
+		if (index === offset) {
+			occurrence = count;
+		}
+		index = text.indexOf(snippet, index + 1);
+	}
+	return count > 1 ? occurrence : undefined;
+}
+
+// 查找片段第 occurrence 处出现的偏移，不存在时返回 -1
+export function findOccurrence(text: string, snippet: string, occurrence: number): number {
+	if (!snippet) {
+		return -1;
+	}
+	let index = text.indexOf(snippet);
+	for (let i = 1; i < occurrence && index !== -1; i++) {
+		index = text.indexOf(snippet, index + 1);
+	}
+	return index;
+}
+
+// 在文本中查找链接指向的片段：优先按出现序号，其次选择离行号提示最近的位置，片段变化时按相似度重新定位
+export function locateLinkedSnippet(
+	text: string,
+	snippet: string,
+	link: Pick<DeepLink, 'line' | 'occurrence'>,
+	threshold: number
+): SnippetCandidate | undefined {
+	if (link.occurrence) {
+		const index = findOccurrence(text, snippet, link.occurrence);
+		if (index !== -1) {
+			return { start: index, end: index + snippet.length, score: 1, text: snippet };
+		}
+	}
+	if (link.line) {
+		return locateSnippet(text, snippet, { startLine: link.line - 1 }, threshold);
+	}
+	return relocateSnippet(text, snippet, threshold);
+}
+
+// 链接文本中不会出现的字符（未编码的空白、引号、尖括号和反引号）
+const LINK_PATTERN = new RegExp(`[a-z][a-z0-9+.-]*://${LINK_AUTHORITY.replace(/\./g, '\\.')}/?\\?[^\\s<>"'\`]+`, 'gi');
+
+// 查找文本中的深度链接，返回链接文本及其偏移
+export function findDeepLinks(text: string): { start: number; end: number; url: string }[] {
+	const links: { start: number; end: number; url: string }[] = [];
+	for (const match of text.matchAll(LINK_PATTERN)) {
+		let url = match[0];
+		// 去掉句末标点，以及 Markdown 链接等包裹链接的右括号
+		for (;;) {
+			if (/[.,;:!?]$/.test(url)) {
+				url = url.slice(0, -1);
+			} else if (url.endsWith(')') && count(url, ')') > count(url, '(')) {
+				url = url.slice(0, -1);
+			} else {
+				break;
+			}
+		}
+		links.push({ start: match.index!, end: match.index! + url.length, url });
+	}
+	return links;
+}
+
+function count(text: string, char: string): number {
+	return text.split(char).length - 1;
+}
@@ -0,0 +1,81 @@
+// 复制链接时的输出格式：纯链接、Markdown、HTML、富文本和自定义模板
+
+// 渲染链接时可用的信息，也是自定义模板中的占位符
+export interface LinkContext {
+	url: string;
+	title: string;
+	fileName?: string;
+	relativePath?: string;
+	line?: number;
+	snippet?: string;
+	snippetPreview?: string;
+}
+
+// 用户在 fileRefTags.copyLink.templates 中定义的模板
+export interface LinkTemplate {
+	name: string;
+	template: string;
+}
+
+// 内置格式
+export type BuiltinLinkFormat = 'url' | 'markdown' | 'html' | 'rich';
+
+export const BUILTIN_LINK_FORMATS: { format: BuiltinLinkFormat; label: string }[] = [
+	{ format: 'url', label: '链接' },
+	{ format: 'markdown', label: 'Markdown' },
+	{ format: 'html', label: 'HTML' },
+	{ format: 'rich', label: '富文本（HTML + 纯文本）' }
+];
+
+// 片段预览的最大长度
+const PREVIEW_LENGTH = 60;
+
+// 取片段第一行非空内容作为预览，过长时截断
+export function previewSnippet(snippet: string, maxLength: number = PREVIEW_LENGTH): string {
+	const firstLine = snippet.split(/\r\n|\r|\n/).map(line => line.trim()).find(line => line.length > 0) || '';
+	return firstLine.length > maxLength ? `${firstLine.substring(0, maxLength - 1)}…` : firstLine;
+}
+
+// 替换模板中的 ${name} 占位符，未知或为空的占位符替换为空字符串
+export function renderLinkTemplate(template: string, context: LinkContext): string {
+	return template.replace(/\$\{(\w+)\}/g, (_match, name: string) => {
+		// 只取 context 自身的字段，${constructor} 等原型上的名称视为未知占位符
+		if (!Object.prototype.hasOwnProperty.call(context, name)) {
+			return '';
+		}
+		const value = (context as unknown as Record<string, unknown>)[name];
+		return value === undefined || value === null ? '' : String(value);
+	});
+}
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+// Markdown 链接：转义标题中的方括号，并编码地址中会截断链接的字符
+export function toMarkdownLink(context: LinkContext): string {
+	const title = context.title.replace(/([\\[\]])/g, '\\$1');
+	const url = context.url.replace(/[ ()<>]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+	return `[${title}](${url})`;
+}
+
+export function toHtmlLink(context: LinkContext): string {
+	return `<a href="${escapeHtml(context.url)}">${escapeHtml(context.title)}</a>`;
+}
+
+// 按内置格式渲染，富文本以 HTML 形式预览
+export function formatLink(format: BuiltinLinkFormat, context: LinkContext): string {
+	switch (format) {
+		case 'markdown':
+			return toMarkdownLink(context);
+		case 'html':
+		case 'rich':
+			return toHtmlLink(context);
+		default:
+			return context.url;
+	}
+}
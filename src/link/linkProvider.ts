@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { DeepLinkError, findDeepLinks, parseDeepLinkQuery } from './deepLink';
+import { DeepLinkResolver } from './linkResolver';
+
+// 在进程内打开链接的命令，参数为链接的查询部分
+export const OPEN_DEEP_LINK_COMMAND = 'file-ref-tags.openDeepLink';
+
+// 生成在进程内打开链接的命令 URI
+function commandUri(url: string): vscode.Uri {
+	const query = url.substring(url.indexOf('?') + 1);
+	return vscode.Uri.parse(`command:${OPEN_DEEP_LINK_COMMAND}?${encodeURIComponent(JSON.stringify([query]))}`);
+}
+
+// 让任意文档中的 file-ref-tags 链接可以点击，悬停时显示链接内容和当前能否解析
+export class DeepLinkProvider implements vscode.DocumentLinkProvider, vscode.HoverProvider, vscode.Disposable {
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly resolver: DeepLinkResolver) {
+		this.disposables.push(
+			vscode.languages.registerDocumentLinkProvider('*', this),
+			vscode.languages.registerHoverProvider('*', this)
+		);
+	}
+
+	provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+		return findDeepLinks(document.getText()).map(({ start, end, url }) => {
+			const link = new vscode.DocumentLink(new vscode.Range(document.positionAt(start), document.positionAt(end)), commandUri(url));
+			link.tooltip = '跳转到 File Ref Tags 链接指向的位置';
+			return link;
+		});
+	}
+
+	async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+		const line = document.lineAt(position.line);
+		const offset = document.offsetAt(line.range.start);
+		const found = findDeepLinks(line.text).find(({ start, end }) => start <= position.character && position.character <= end);
+		if (!found) {
+			return undefined;
+		}
+		const range = new vscode.Range(document.positionAt(offset + found.start), document.positionAt(offset + found.end));
+
+		const markdown = new vscode.MarkdownString();
+		markdown.isTrusted = { enabledCommands: [OPEN_DEEP_LINK_COMMAND] };
+		markdown.appendMarkdown('**File Ref Tags 链接**\n\n');
+		try {
+			const link = parseDeepLinkQuery(found.url.substring(found.url.indexOf('?') + 1));
+			const details: string[] = [];
+			if (link.filePath) {
+				details.push(`文件：\`${link.filePath}\``);
+			}
+			if (link.workspace) {
+				details.push(`工作区文件夹：\`${link.workspace}\``);
+			}
+			if (link.line) {
+				details.push(`第 ${link.line} 行${link.column ? `第 ${link.column} 列` : ''}`);
+			}
+			if (link.occurrence) {
+				details.push(`第 ${link.occurrence} 处出现`);
+			}
+			if (link.refId) {
+				details.push(`引用项：\`${link.refId}\``);
+			}
+			markdown.appendMarkdown(details.map(detail => `- ${detail}`).join('\n'));
+			if (link.snippet) {
+				markdown.appendCodeblock(link.snippet);
+			}
+
+			const status = await this.resolver.check(link, token);
+			markdown.appendMarkdown(`\n\n${status.resolved ? '$(check)' : '$(warning)'} ${status.message}`);
+			markdown.supportThemeIcons = true;
+			markdown.appendMarkdown(`\n\n[跳转](${commandUri(found.url).toString()})`);
+		} catch (error) {
+			if (!(error instanceof DeepLinkError)) {
+				throw error;
+			}
+			markdown.appendMarkdown(`$(warning) ${error.message}`);
+			markdown.supportThemeIcons = true;
+		}
+		return new vscode.Hover(markdown, range);
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+	}
+}
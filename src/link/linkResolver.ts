@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getRelocationThreshold, ReferenceDataManager } from '../data/referenceDataManager';
+import { WorkspaceSearchService } from '../search/workspaceSearch';
+import { describeOffset } from '../search/locationPicker';
+import { DeepLink, locateLinkedSnippet } from './deepLink';
+
+// 链接当前能否解析，用于悬停提示
+export interface LinkStatus {
+	resolved: boolean;
+	message: string;
+}
+
+// 检查时最多打开的候选文件数
+const MAX_CHECKED_FILES = 20;
+
+// 优先使用指定工作区文件夹中的结果，其中没有结果或未指定文件夹时使用全部结果
+export function preferWorkspaceFolder<T extends { uri: vscode.Uri }>(items: T[], folderName: string | undefined): T[] {
+	if (!folderName) {
+		return items;
+	}
+	const inFolder = items.filter(item => vscode.workspace.getWorkspaceFolder(item.uri)?.name === folderName);
+	return inFolder.length > 0 ? inFolder : items;
+}
+
+// 深度链接的解析：查找链接指向的文件，并检查链接当前是否有效
+export class DeepLinkResolver {
+	private decoder = new TextDecoder('utf-8');
+
+	constructor(
+		private readonly dataManager: ReferenceDataManager,
+		private readonly searchService: WorkspaceSearchService
+	) {}
+
+	// 在工作区中查找相对路径或文件名对应的文件，链接指定了工作区文件夹时优先在其中查找，找不到再查找其他文件夹
+	async findFiles(filePath: string, workspace?: string): Promise<vscode.Uri[]> {
+		const folder = workspace ? vscode.workspace.workspaceFolders?.find(f => f.name === workspace) : undefined;
+		if (folder) {
+			// 路径相对于该文件夹时直接使用
+			const exact = vscode.Uri.joinPath(folder.uri, filePath);
+			if (await this.exists(exact)) {
+				return [exact];
+			}
+			const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, `**/${filePath}`), '**/node_modules/**');
+			if (files.length > 0) {
+				return files;
+			}
+		}
+
+		// 字符串形式的 glob 会一次查找所有工作区文件夹
+		return vscode.workspace.findFiles(`**/${filePath}`, '**/node_modules/**');
+	}
+
+	private async exists(uri: vscode.Uri): Promise<boolean> {
+		try {
+			await vscode.workspace.fs.stat(uri);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	// 检查链接当前能否解析，不打开编辑器也不弹出选择框
+	async check(link: DeepLink, token?: vscode.CancellationToken): Promise<LinkStatus> {
+		const reference = link.refId ? this.dataManager.getReferences().find(r => r.id === link.refId) : undefined;
+		if (reference) {
+			return { resolved: true, message: `指向面板中的引用项：${reference.title}` };
+		}
+
+		if (link.filePath) {
+			const files = path.isAbsolute(link.filePath)
+				? [vscode.Uri.file(link.filePath)]
+				: await this.findFiles(link.filePath, link.workspace);
+			return this.checkFiles(files, link);
+		}
+
+		if (link.snippet) {
+			const result = await this.searchService.findSnippet(link.snippet, 2, token);
+			if (result.cancelled) {
+				return { resolved: false, message: '检查已取消' };
+			}
+			if (result.matches.length === 0) {
+				return { resolved: false, message: '工作区中未找到代码片段' };
+			}
+			const matches = preferWorkspaceFolder(result.matches, link.workspace);
+			const [match] = matches;
+			return matches.length > 1
+				? { resolved: true, message: '代码片段出现在多个位置，跳转时需要选择' }
+				: { resolved: true, message: `${vscode.workspace.asRelativePath(match.uri)} 第 ${match.line + 1} 行` };
+		}
+
+		return { resolved: false, message: '链接指向的引用项已不存在' };
+	}
+
+	private async checkFiles(files: vscode.Uri[], link: DeepLink): Promise<LinkStatus> {
+		const existing: vscode.Uri[] = [];
+		for (const uri of files) {
+			if (await this.exists(uri)) {
+				existing.push(uri);
+			}
+		}
+		if (existing.length === 0) {
+			return { resolved: false, message: `未找到文件：${link.filePath}` };
+		}
+		if (!link.snippet) {
+			return existing.length > 1
+				? { resolved: true, message: `找到 ${existing.length} 个匹配文件，跳转时需要选择` }
+				: { resolved: true, message: vscode.workspace.asRelativePath(existing[0]) };
+		}
+
+		const found: string[] = [];
+		let bestScore = 0;
+		for (const uri of existing.slice(0, MAX_CHECKED_FILES)) {
+			const text = await this.readText(uri);
+			const candidate = text === undefined ? undefined : locateLinkedSnippet(text, link.snippet, link, getRelocationThreshold());
+			if (text !== undefined && candidate) {
+				found.push(`${vscode.workspace.asRelativePath(uri)} 第 ${describeOffset(text, candidate.start).line + 1} 行`);
+				bestScore = Math.max(bestScore, candidate.score);
+			}
+		}
+		if (found.length === 0) {
+			return { resolved: false, message: '文件中未找到代码片段' };
+		}
+		if (found.length > 1) {
+			return { resolved: true, message: `代码片段出现在 ${found.length} 个文件中，跳转时需要选择` };
+		}
+		return bestScore < 1
+			? { resolved: true, message: `${found[0]}（代码片段已发生变化，相似度 ${Math.round(bestScore * 100)}%）` }
+			: { resolved: true, message: found[0] };
+	}
+
+	// 读取文件内容，已打开的文档以编辑器中的内容为准
+	private async readText(uri: vscode.Uri): Promise<string | undefined> {
+		const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+		if (openDocument) {
+			return openDocument.getText();
+		}
+		try {
+			return this.decoder.decode(await vscode.workspace.fs.readFile(uri));
+		} catch (error) {
+			console.error('无法读取文件:', uri.toString(), error);
+			return undefined;
+		}
+	}
+}
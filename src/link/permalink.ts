@@ -0,0 +1,86 @@
+// 网页永久链接：由 .git/config 中的远程仓库地址、提交和文件路径拼出代码托管网站上的地址，带行号锚点
+
+// 代码托管网站的链接风格
+export type ForgeStyle = 'github' | 'gitlab' | 'gitea';
+
+export const FORGE_STYLES: ForgeStyle[] = ['github', 'gitlab', 'gitea'];
+
+// 远程仓库在网页上的位置
+export interface RemoteRepository {
+	// 带协议的网站地址，如 https://github.com
+	origin: string;
+	host: string;
+	// 仓库路径，如 owner/repo
+	path: string;
+}
+
+// 解析远程仓库地址，支持 https、ssh 和 scp 形式（git@host:owner/repo.git）；本地路径等无法对应网页的地址返回 undefined
+export function parseRemoteUrl(url: string): RemoteRepository | undefined {
+	url = url.trim();
+	let protocol = 'https:';
+	let host: string;
+	let repoPath: string;
+	const scp = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(url);
+	if (scp && !/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+		host = scp[1];
+		repoPath = scp[2];
+	} else {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return undefined;
+		}
+		if (!['http:', 'https:', 'ssh:', 'git:', 'git+ssh:', 'ssh+git:'].includes(parsed.protocol) || !parsed.hostname) {
+			return undefined;
+		}
+		// 只有 http(s) 地址中的端口也用于网页，ssh 端口与网页无关
+		if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+			protocol = parsed.protocol;
+			host = parsed.host;
+		} else {
+			host = parsed.hostname;
+		}
+		repoPath = decodeURIComponent(parsed.pathname);
+	}
+	repoPath = repoPath.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+	if (!repoPath) {
+		return undefined;
+	}
+	return { origin: `${protocol}//${host}`, host, path: repoPath };
+}
+
+// 按主机名判断链接风格，用户配置优先；无法判断时使用 GitHub 风格
+export function forgeStyleOf(host: string, overrides: Record<string, string> = {}): ForgeStyle {
+	const configured = overrides[host] ?? overrides[host.replace(/:\d+$/, '')];
+	if (FORGE_STYLES.includes(configured as ForgeStyle)) {
+		return configured as ForgeStyle;
+	}
+	if (/gitlab/i.test(host)) {
+		return 'gitlab';
+	}
+	if (/gitea|forgejo|codeberg/i.test(host)) {
+		return 'gitea';
+	}
+	return 'github';
+}
+
+// 行号从1开始，包含结束行
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+// 提交中文件的网页地址，GitLab 的多行锚点为 #L3-5，GitHub 和 Gitea 为 #L3-L5
+export function buildPermalink(remote: RemoteRepository, style: ForgeStyle, commit: string, gitPath: string, lines?: LineRange): string {
+	const filePath = gitPath.split('/').map(encodeURIComponent).join('/');
+	const blob = style === 'gitlab' ? '-/blob' : style === 'gitea' ? 'src/commit' : 'blob';
+	let anchor = '';
+	if (lines) {
+		anchor = `#L${lines.start}`;
+		if (lines.end > lines.start) {
+			anchor += style === 'gitlab' ? `-${lines.end}` : `-L${lines.end}`;
+		}
+	}
+	return `${remote.origin}/${remote.path}/${blob}/${commit}/${filePath}${anchor}`;
+}
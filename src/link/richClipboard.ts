@@ -0,0 +1,65 @@
+import { execFile } from 'child_process';
+
+// VS Code 的剪贴板接口只能写入纯文本，富文本（HTML + 纯文本）通过系统工具写入
+
+// 系统命令的超时时间
+const CLIPBOARD_TIMEOUT = 5000;
+
+// 把 HTML 片段包装成 Windows 剪贴板的 CF_HTML 格式，偏移按 UTF-8 字节计算
+export function buildCfHtml(fragment: string): string {
+	const prefix = '<html><body><!--StartFragment-->';
+	const suffix = '<!--EndFragment--></body></html>';
+	const offset = (value: number) => String(value).padStart(10, '0');
+	const header = (startHtml: number, endHtml: number, startFragment: number, endFragment: number) =>
+		`Version:0.9\r\nStartHTML:${offset(startHtml)}\r\nEndHTML:${offset(endHtml)}\r\n`
+		+ `StartFragment:${offset(startFragment)}\r\nEndFragment:${offset(endFragment)}\r\n`;
+
+	const startHtml = Buffer.byteLength(header(0, 0, 0, 0));
+	const startFragment = startHtml + Buffer.byteLength(prefix);
+	const endFragment = startFragment + Buffer.byteLength(fragment);
+	const endHtml = endFragment + Buffer.byteLength(suffix);
+	return header(startHtml, endHtml, startFragment, endFragment) + prefix + fragment + suffix;
+}
+
+function run(command: string, args: string[]): Promise<boolean> {
+	return new Promise(resolve => {
+		execFile(command, args, { timeout: CLIPBOARD_TIMEOUT, windowsHide: true }, error => {
+			if (error) {
+				console.error('Failed to write rich text to clipboard:', error);
+			}
+			resolve(!error);
+		});
+	});
+}
+
+function writeWindows(html: string, text: string): Promise<boolean> {
+	const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+	const decode = (value: string) => `[Text.Encoding]::UTF8.GetString([Convert]::FromBase64String('${base64(value)}'))`;
+	const script = [
+		'Add-Type -AssemblyName System.Windows.Forms',
+		'$data = New-Object System.Windows.Forms.DataObject',
+		`$data.SetData([System.Windows.Forms.DataFormats]::Html, ${decode(buildCfHtml(html))})`,
+		`$data.SetData([System.Windows.Forms.DataFormats]::UnicodeText, ${decode(text)})`,
+		'[System.Windows.Forms.Clipboard]::SetDataObject($data, $true)'
+	].join('; ');
+	const encoded = Buffer.from(script, 'utf16le').toString('base64');
+	return run('powershell.exe', ['-NoProfile', '-NonInteractive', '-STA', '-EncodedCommand', encoded]);
+}
+
+function writeMac(html: string, text: string): Promise<boolean> {
+	const hex = (value: string) => Buffer.from(value, 'utf8').toString('hex').toUpperCase();
+	return run('osascript', ['-e', `set the clipboard to {«class HTML»:«data HTML${hex(html)}», «class utf8»:«data utf8${hex(text)}»}`]);
+}
+
+// 同时写入 HTML 和纯文本，当前系统不支持时返回 false
+export async function writeRichText(html: string, text: string): Promise<boolean> {
+	switch (process.platform) {
+		case 'win32':
+			return writeWindows(html, text);
+		case 'darwin':
+			return writeMac(html, text);
+		default:
+			// Linux 的 xclip、wl-copy 一次只能写入一种格式
+			return false;
+	}
+}
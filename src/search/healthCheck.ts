@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { ReferenceItem } from '../types/referenct';
+import { locateSnippet } from './relocate';
+import { WorkspaceSearchService } from './workspaceSearch';
+import { formatSymbolPath, resolveSymbolPath } from './symbolPath';
+import { loadDocumentSymbols } from './symbolAnchor';
+import { referenceUri, uriExists } from '../data/referenceUri';
+
+// 引用项的问题类型
+export type ReferenceIssue = 'missing-file' | 'missing-snippet' | 'not-unique' | 'drifted';
+
+// 单个引用项的检查结果，没有问题的引用项不会有结果
+export interface ReferenceHealth {
+	issue: ReferenceIssue;
+	message: string;
+}
+
+// 引用健康检查：找出文件已不存在、片段已不存在或已不唯一的引用项
+export class ReferenceHealthChecker {
+	constructor(private readonly searchService: WorkspaceSearchService) {}
+
+	// 检查单个引用项
+	async check(reference: ReferenceItem, threshold: number, token?: vscode.CancellationToken): Promise<ReferenceHealth | undefined> {
+		if (reference.orphaned) {
+			return { issue: 'missing-file', message: `文件已被删除：${reference.filePath}` };
+		}
+		switch (reference.type) {
+			case 'file':
+				if (reference.filePath && !await uriExists(referenceUri(reference)!)) {
+					return { issue: 'missing-file', message: `文件已不存在：${reference.filePath}` };
+				}
+				return undefined;
+			case 'file-snippet':
+				return this.checkFileSnippet(reference, threshold);
+			case 'symbol':
+				return this.checkSymbol(reference, threshold);
+			case 'global-snippet': {
+				if (!reference.snippet) {
+					return undefined;
+				}
+				const result = await this.searchService.findSnippet(reference.snippet, 2, token);
+				if (result.cancelled) {
+					return undefined;
+				}
+				if (result.matches.length === 0) {
+					return { issue: 'missing-snippet', message: '代码片段已不存在于工作区中' };
+				}
+				if (result.matches.length > 1) {
+					return { issue: 'not-unique', message: '代码片段已不是全局唯一' };
+				}
+				return undefined;
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	private async checkFileSnippet(reference: ReferenceItem, threshold: number): Promise<ReferenceHealth | undefined> {
+		const uri = referenceUri(reference);
+		if (!uri || !reference.snippet) {
+			return undefined;
+		}
+		if (!await uriExists(uri)) {
+			return { issue: 'missing-file', message: `文件已不存在：${reference.filePath}` };
+		}
+
+		const doc = await vscode.workspace.openTextDocument(uri);
+		const candidate = locateSnippet(doc.getText(), reference.snippet, reference, threshold);
+		if (!candidate) {
+			return { issue: 'missing-snippet', message: '代码片段已不存在于文件中' };
+		}
+		if (candidate.score < 1) {
+			return { issue: 'drifted', message: `代码片段已发生变化（相似度 ${Math.round(candidate.score * 100)}%）` };
+		}
+		return undefined;
+	}
+
+	// 符号引用：能在文档大纲中按符号路径找到时正常；语言不支持大纲或找不到符号时检查声明行片段
+	private async checkSymbol(reference: ReferenceItem, threshold: number): Promise<ReferenceHealth | undefined> {
+		const uri = referenceUri(reference);
+		if (!uri) {
+			return undefined;
+		}
+		if (!await uriExists(uri)) {
+			return { issue: 'missing-file', message: `文件已不存在：${reference.filePath}` };
+		}
+		if (!reference.symbolPath || reference.symbolPath.length === 0) {
+			return this.checkFileSnippet(reference, threshold);
+		}
+		const symbols = await loadDocumentSymbols(uri);
+		if (resolveSymbolPath(symbols, reference.symbolPath, reference.symbolKind)) {
+			return undefined;
+		}
+		const health = await this.checkFileSnippet(reference, threshold);
+		if (health?.issue === 'missing-snippet' || (!reference.snippet && symbols.length > 0)) {
+			return { issue: 'missing-snippet', message: `找不到符号 ${formatSymbolPath(reference.symbolPath)}` };
+		}
+		return health;
+	}
+
+	// 检查所有引用项，返回有问题的引用项
+	async checkAll(
+		references: ReferenceItem[],
+		threshold: number,
+		token?: vscode.CancellationToken,
+		progress?: vscode.Progress<{ message?: string; increment?: number }>
+	): Promise<Map<string, ReferenceHealth>> {
+		const results = new Map<string, ReferenceHealth>();
+		const checkable = references.filter(r => r.type !== 'comment' && r.type !== 'group');
+		for (const reference of checkable) {
+			if (token?.isCancellationRequested) {
+				break;
+			}
+			progress?.report({ message: reference.title, increment: 100 / checkable.length });
+			try {
+				const health = await this.check(reference, threshold, token);
+				if (health) {
+					results.set(reference.id, health);
+				}
+			} catch (error) {
+				console.error('Failed to verify reference:', reference.id, error);
+			}
+		}
+		return results;
+	}
+}
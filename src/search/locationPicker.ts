@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+
+// 一个候选跳转位置
+export interface CandidateLocation {
+	uri: vscode.Uri;
+	// 片段在文件中的偏移，仅文件跳转时为空
+	start?: number;
+	end?: number;
+	// 行号（从0开始）和该行内容，用于在选择框中展示
+	line?: number;
+	preview?: string;
+}
+
+// 记住的选择
+interface RememberedLocation {
+	uri: string;
+	line?: number;
+}
+
+const STATE_KEY = 'fileRefTags.rememberedLocations';
+
+// 多个候选位置时让用户选择，并按链接记住选择，下次直接跳转
+export class LocationPicker {
+	constructor(private readonly memento: vscode.Memento) {}
+
+	// key 用于区分链接或引用项，为空时不记住选择；只有一个候选时直接返回
+	async pick(key: string | undefined, candidates: CandidateLocation[], placeHolder: string): Promise<CandidateLocation | undefined> {
+		const unique = dedupe(candidates);
+		if (unique.length <= 1) {
+			return unique[0];
+		}
+
+		const remembered = key ? this.getRemembered()[key] : undefined;
+		if (remembered) {
+			const sameFile = unique.filter(c => c.uri.toString() === remembered.uri);
+			if (sameFile.length > 0) {
+				// 同一文件中有多处匹配时，选择离记住的行最近的一处
+				return sameFile.reduce((best, c) =>
+					Math.abs((c.line ?? 0) - (remembered.line ?? 0)) < Math.abs((best.line ?? 0) - (remembered.line ?? 0)) ? c : best
+				);
+			}
+		}
+
+		const picked = await vscode.window.showQuickPick(
+			unique.map(candidate => ({
+				label: vscode.workspace.asRelativePath(candidate.uri),
+				description: candidate.line !== undefined ? `第 ${candidate.line + 1} 行` : undefined,
+				detail: candidate.preview?.trim(),
+				candidate
+			})),
+			{ placeHolder, matchOnDescription: true, matchOnDetail: true }
+		);
+		if (!picked) {
+			return undefined;
+		}
+
+		if (key) {
+			await this.remember(key, picked.candidate);
+		}
+		return picked.candidate;
+	}
+
+	// 清除所有记住的选择
+	async clear(): Promise<void> {
+		await this.memento.update(STATE_KEY, undefined);
+	}
+
+	private getRemembered(): Record<string, RememberedLocation> {
+		return this.memento.get<Record<string, RememberedLocation>>(STATE_KEY, {});
+	}
+
+	private async remember(key: string, candidate: CandidateLocation): Promise<void> {
+		const remembered = this.getRemembered();
+		remembered[key] = { uri: candidate.uri.toString(), line: candidate.line };
+		await this.memento.update(STATE_KEY, remembered);
+	}
+}
+
+// 去掉重复的候选位置
+function dedupe(candidates: CandidateLocation[]): CandidateLocation[] {
+	const seen = new Set<string>();
+	return candidates.filter(candidate => {
+		const key = `${candidate.uri.toString()}#${candidate.start ?? ''}`;
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+}
+
+// 计算偏移所在的行号和该行内容
+export function describeOffset(text: string, offset: number): { line: number; preview: string } {
+	const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+	let lineEnd = text.indexOf('\n', offset);
+	if (lineEnd === -1) {
+		lineEnd = text.length;
+	}
+	const line = text.substring(0, lineStart).split('\n').length - 1;
+	return { line, preview: text.substring(lineStart, lineEnd).replace(/\r$/, '') };
+}
@@ -0,0 +1,72 @@
+import { ReferenceItem } from '../types/referenct';
+
+// 解析后的搜索条件
+export interface ReferenceQuery {
+	// 普通关键字，需全部命中
+	terms: string[];
+	// type: 过滤，命中任意一个即可
+	types: ReferenceItem['type'][];
+	// tag: 过滤，需全部命中
+	tags: string[];
+}
+
+const SEARCHABLE_TYPES: ReferenceItem['type'][] = ['file', 'file-snippet', 'global-snippet', 'symbol', 'comment'];
+
+// 解析搜索框输入，例如 "auth type:file-snippet tag:todo"
+export function parseReferenceQuery(input: string): ReferenceQuery {
+	const query: ReferenceQuery = { terms: [], types: [], tags: [] };
+	for (const token of input.trim().toLowerCase().split(/\s+/).filter(Boolean)) {
+		if (token.startsWith('type:')) {
+			token.slice(5).split(',').forEach(type => {
+				if ((SEARCHABLE_TYPES as string[]).includes(type)) {
+					query.types.push(type as ReferenceItem['type']);
+				}
+			});
+		} else if (token.startsWith('tag:') && token.length > 4) {
+			query.tags.push(token.slice(4));
+		} else if (token.startsWith('#') && token.length > 1) {
+			query.tags.push(token.slice(1));
+		} else {
+			query.terms.push(token);
+		}
+	}
+	return query;
+}
+
+// 搜索条件是否为空
+export function isEmptyQuery(query: ReferenceQuery): boolean {
+	return query.terms.length === 0 && query.types.length === 0 && query.tags.length === 0;
+}
+
+// 判断引用项是否满足搜索条件，匹配标题、代码片段、文件路径、备注和标签
+export function matchesReferenceQuery(reference: ReferenceItem, query: ReferenceQuery): boolean {
+	if (query.types.length > 0 && !query.types.includes(reference.type)) {
+		return false;
+	}
+
+	const tags = (reference.tags || []).map(tag => tag.toLowerCase());
+	if (!query.tags.every(tag => tags.some(t => t.includes(tag)))) {
+		return false;
+	}
+
+	const haystack = [reference.title, reference.snippet, reference.filePath, reference.comment, ...tags]
+		.filter(Boolean)
+		.join('\n')
+		.toLowerCase();
+	return query.terms.every(term => haystack.includes(term));
+}
+
+// 按搜索框输入过滤引用项
+export function filterReferences(references: ReferenceItem[], input: string): ReferenceItem[] {
+	const query = parseReferenceQuery(input);
+	if (isEmptyQuery(query)) {
+		return references;
+	}
+	return references.filter(reference => matchesReferenceQuery(reference, query));
+}
+
+// 将输入的标签文本（逗号或空格分隔）整理为标签列表
+export function parseTags(input: string): string[] {
+	const tags = input.split(/[,，\s]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+	return Array.from(new Set(tags));
+}
@@ -0,0 +1,275 @@
+// 代码片段重定位：在文本已发生变化（空白、缩进、换行符、少量编辑）时仍能找到片段
+
+// 候选位置
+export interface SnippetCandidate {
+	start: number;
+	end: number;
+	// 相似度，0~1，1表示完全一致
+	score: number;
+	// 候选位置的实际文本
+	text: string;
+}
+
+// 片段的位置锚点：记录的行号和上下文
+export interface SnippetAnchor {
+	startLine?: number;
+	endLine?: number;
+	contextBefore?: string;
+	contextAfter?: string;
+}
+
+// 默认相似度阈值
+export const DEFAULT_RELOCATION_THRESHOLD = 0.8;
+
+// 去掉空白后带原始偏移映射的文本
+interface NormalizedText {
+	text: string;
+	// 归一化文本中每个字符在原文中的偏移
+	offsets: number[];
+}
+
+// 将连续空白（包括 CRLF/LF）压缩为一个空格，并去掉首尾空白
+function normalizeWithOffsets(text: string): NormalizedText {
+	let normalized = '';
+	const offsets: number[] = [];
+	let pendingSpace = false;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (/\s/.test(ch)) {
+			pendingSpace = normalized.length > 0;
+			continue;
+		}
+		if (pendingSpace) {
+			normalized += ' ';
+			offsets.push(i - 1);
+			pendingSpace = false;
+		}
+		normalized += ch;
+		offsets.push(i);
+	}
+	return { text: normalized, offsets };
+}
+
+export function normalizeWhitespace(text: string): string {
+	return normalizeWithOffsets(text).text;
+}
+
+// 基于字符二元组的 Dice 系数，对少量编辑不敏感且为线性复杂度
+export function similarity(a: string, b: string): number {
+	if (a === b) {
+		return 1;
+	}
+	if (a.length < 2 || b.length < 2) {
+		return 0;
+	}
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i < a.length - 1; i++) {
+		const bigram = a.substr(i, 2);
+		bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+	}
+	let intersection = 0;
+	for (let i = 0; i < b.length - 1; i++) {
+		const bigram = b.substr(i, 2);
+		const count = bigrams.get(bigram) || 0;
+		if (count > 0) {
+			bigrams.set(bigram, count - 1);
+			intersection++;
+		}
+	}
+	return (2 * intersection) / (a.length + b.length - 2);
+}
+
+// 查找所有精确匹配
+function findExact(text: string, snippet: string): SnippetCandidate[] {
+	const candidates: SnippetCandidate[] = [];
+	let index = text.indexOf(snippet);
+	while (index !== -1) {
+		candidates.push({ start: index, end: index + snippet.length, score: 1, text: snippet });
+		index = text.indexOf(snippet, index + 1);
+	}
+	return candidates;
+}
+
+// 忽略空白差异后查找匹配
+function findIgnoringWhitespace(text: string, snippet: string): SnippetCandidate[] {
+	const needle = normalizeWhitespace(snippet);
+	if (!needle) {
+		return [];
+	}
+	const haystack = normalizeWithOffsets(text);
+	const candidates: SnippetCandidate[] = [];
+	let index = haystack.text.indexOf(needle);
+	while (index !== -1) {
+		const start = haystack.offsets[index];
+		const end = haystack.offsets[index + needle.length - 1] + 1;
+		// 空白差异的匹配略低于精确匹配
+		candidates.push({ start, end, score: 0.99, text: text.substring(start, end) });
+		index = haystack.text.indexOf(needle, index + 1);
+	}
+	return candidates;
+}
+
+// 按行滑动窗口，计算与片段的相似度
+function findSimilarLines(text: string, snippet: string, threshold: number): SnippetCandidate[] {
+	const needle = normalizeWhitespace(snippet);
+	if (!needle) {
+		return [];
+	}
+
+	// 记录每行在原文中的起止位置
+	const lines: { start: number; end: number }[] = [];
+	const lineRegex = /[^\r\n]*(\r\n|\r|\n|$)/g;
+	let match: RegExpExecArray | null;
+	while ((match = lineRegex.exec(text)) !== null) {
+		const lineText = match[0].replace(/(\r\n|\r|\n)$/, '');
+		lines.push({ start: match.index, end: match.index + lineText.length });
+		if (match.index + match[0].length >= text.length) {
+			break;
+		}
+	}
+
+	const snippetLineCount = snippet.split(/\r\n|\r|\n/).filter(line => line.trim()).length || 1;
+	const windowSizes = new Set([snippetLineCount, snippetLineCount - 1, snippetLineCount + 1].filter(size => size > 0));
+
+	const candidates: SnippetCandidate[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		for (const size of windowSizes) {
+			if (i + size > lines.length) {
+				continue;
+			}
+			// 跳过首行为空白的窗口，避免同一位置出现多个重复候选
+			const firstLine = text.substring(lines[i].start, lines[i].end);
+			if (!firstLine.trim()) {
+				continue;
+			}
+			const start = lines[i].start + (firstLine.length - firstLine.trimStart().length);
+			const end = lines[i + size - 1].end;
+			const windowText = text.substring(start, end);
+			const score = similarity(normalizeWhitespace(windowText), needle);
+			if (score >= threshold) {
+				candidates.push({ start, end, score, text: windowText });
+			}
+		}
+	}
+	return candidates;
+}
+
+// 去掉与更高分候选重叠的候选
+function dropOverlapping(candidates: SnippetCandidate[]): SnippetCandidate[] {
+	const result: SnippetCandidate[] = [];
+	for (const candidate of candidates) {
+		if (!result.some(c => candidate.start < c.end && c.start < candidate.end)) {
+			result.push(candidate);
+		}
+	}
+	return result;
+}
+
+// 查找片段的所有候选位置，按相似度从高到低排序
+export function findSnippetCandidates(
+	text: string,
+	snippet: string,
+	threshold: number = DEFAULT_RELOCATION_THRESHOLD
+): SnippetCandidate[] {
+	if (!snippet) {
+		return [];
+	}
+
+	const exact = findExact(text, snippet);
+	if (exact.length > 0) {
+		return exact;
+	}
+
+	const whitespace = findIgnoringWhitespace(text, snippet);
+	if (whitespace.length > 0) {
+		return whitespace;
+	}
+
+	const similar = findSimilarLines(text, snippet, threshold);
+	// 分数相同时优先靠前的位置
+	similar.sort((a, b) => b.score - a.score || a.start - b.start);
+	return dropOverlapping(similar);
+}
+
+// 查找最佳候选位置，没有达到阈值的候选时返回undefined
+export function relocateSnippet(
+	text: string,
+	snippet: string,
+	threshold: number = DEFAULT_RELOCATION_THRESHOLD
+): SnippetCandidate | undefined {
+	return findSnippetCandidates(text, snippet, threshold)[0];
+}
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+// 每一行开始处的偏移
+function lineStartsOf(text: string): number[] {
+	const starts = [0];
+	for (const match of text.matchAll(/\r\n|\r|\n/g)) {
+		starts.push(match.index! + match[0].length);
+	}
+	return starts;
+}
+
+// 计算偏移所在的行号（从0开始），在行首偏移中二分查找
+function lineOf(lineStarts: number[], offset: number): number {
+	let low = 0;
+	let high = lineStarts.length - 1;
+	while (low < high) {
+		const middle = (low + high + 1) >> 1;
+		if (lineStarts[middle] <= offset) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return low;
+}
+
+// 比较候选位置前后的文本与记录的上下文
+function contextScore(lines: string[], startLine: number, endLine: number, anchor: SnippetAnchor): number {
+	const scores: number[] = [];
+	if (anchor.contextBefore) {
+		const count = anchor.contextBefore.split(LINE_BREAK).length;
+		const before = lines.slice(Math.max(0, startLine - count), startLine).join('\n');
+		scores.push(similarity(normalizeWhitespace(before), normalizeWhitespace(anchor.contextBefore)));
+	}
+	if (anchor.contextAfter) {
+		const count = anchor.contextAfter.split(LINE_BREAK).length;
+		const after = lines.slice(endLine + 1, endLine + 1 + count).join('\n');
+		scores.push(similarity(normalizeWhitespace(after), normalizeWhitespace(anchor.contextAfter)));
+	}
+	return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+}
+
+// 结合记录的行号和上下文，从所有候选中选出最可能的位置
+export function locateSnippet(
+	text: string,
+	snippet: string,
+	anchor?: SnippetAnchor,
+	threshold: number = DEFAULT_RELOCATION_THRESHOLD
+): SnippetCandidate | undefined {
+	const candidates = findSnippetCandidates(text, snippet, threshold);
+	if (candidates.length <= 1 || !anchor) {
+		return candidates[0];
+	}
+
+	const lines = text.split(LINE_BREAK);
+	const lineStarts = lineStartsOf(text);
+	let best: SnippetCandidate | undefined;
+	let bestRank = -1;
+	for (const candidate of candidates) {
+		const startLine = lineOf(lineStarts, candidate.start);
+		const endLine = lineOf(lineStarts, candidate.end);
+		const proximity = anchor.startLine !== undefined
+			? 1 / (1 + Math.abs(startLine - anchor.startLine) / 10)
+			: 0;
+		// 片段相似度为主，上下文次之，行号距离只用于打破平局
+		const rank = candidate.score * 0.6 + contextScore(lines, startLine, endLine, anchor) * 0.3 + proximity * 0.1;
+		if (rank > bestRank) {
+			bestRank = rank;
+			best = candidate;
+		}
+	}
+	return best;
+}
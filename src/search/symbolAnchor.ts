@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { SymbolNode } from './symbolPath';
+
+// 文档大纲中的符号，附带在编辑器中定位所需的范围
+export interface DocumentSymbolNode extends SymbolNode {
+	range: vscode.Range;
+	// 符号名称所在的范围
+	selectionRange: vscode.Range;
+}
+
+function toNode(symbol: vscode.DocumentSymbol | vscode.SymbolInformation): DocumentSymbolNode {
+	if ('children' in symbol) {
+		return {
+			name: symbol.name,
+			kind: symbol.kind,
+			startLine: symbol.range.start.line,
+			endLine: symbol.range.end.line,
+			range: symbol.range,
+			selectionRange: symbol.selectionRange,
+			children: symbol.children.map(toNode)
+		};
+	}
+	// 只提供扁平符号列表的语言，没有层级
+	const range = symbol.location.range;
+	return { name: symbol.name, kind: symbol.kind, startLine: range.start.line, endLine: range.end.line, range, selectionRange: range, children: [] };
+}
+
+// 通过语言扩展提供的大纲获取文档中的符号，该语言不支持大纲时返回空数组
+export async function loadDocumentSymbols(uri: vscode.Uri): Promise<DocumentSymbolNode[]> {
+	try {
+		const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>(
+			'vscode.executeDocumentSymbolProvider',
+			uri
+		);
+		return (symbols || []).map(toNode);
+	} catch (error) {
+		console.error('获取文档符号失败:', uri.toString(), error);
+		return [];
+	}
+}
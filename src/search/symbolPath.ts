@@ -0,0 +1,75 @@
+// 符号路径：按大纲中的层级记录引用所在的符号，例如 ReferenceDataManager > updateOrder。
+// 只依赖符号的名称、类型和行范围，不依赖 vscode，便于测试
+
+// 大纲中的一个符号
+export interface SymbolNode {
+	name: string;
+	kind: number;
+	// 符号所占的行范围（从0开始，包含结束行）
+	startLine: number;
+	endLine: number;
+	children: this[];
+}
+
+// 路径在界面中的显示形式
+export const SYMBOL_PATH_SEPARATOR = ' > ';
+
+export function formatSymbolPath(path: string[]): string {
+	return path.join(SYMBOL_PATH_SEPARATOR);
+}
+
+// 比较时使用的名称：部分语言的符号名带有参数列表或泛型参数，只比较名称本身
+function baseName(name: string): string {
+	return name.replace(/[(<].*$/, '').trim();
+}
+
+// 包含指定行的最内层符号及其所有上级，从外到内排列；行不在任何符号中时返回空数组
+export function enclosingSymbols<T extends SymbolNode>(symbols: T[], line: number): T[] {
+	const chain: T[] = [];
+	let level = symbols;
+	for (;;) {
+		// 同一层有多个符号包含该行时（如装饰器和类），取范围最小的
+		const containing = level
+			.filter(symbol => symbol.startLine <= line && line <= symbol.endLine)
+			.sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+		if (!containing) {
+			return chain;
+		}
+		chain.push(containing);
+		level = containing.children;
+	}
+}
+
+// 按记录的路径重新查找符号。逐层按名称匹配；路径已不完整（符号被移到其他类或命名空间中）时，
+// 退回到按最后一级的名称和类型在整个大纲中查找，只有唯一匹配时才采用
+export function resolveSymbolPath<T extends SymbolNode>(symbols: T[], path: string[], kind?: number): T | undefined {
+	if (path.length === 0) {
+		return undefined;
+	}
+
+	let level = symbols;
+	let found: T | undefined;
+	for (let i = 0; i < path.length; i++) {
+		const matches = level.filter(symbol => baseName(symbol.name) === baseName(path[i]));
+		// 最后一级有多个同名符号时（如同名的属性和方法），优先选择类型相同的
+		found = (i === path.length - 1 ? matches.find(symbol => symbol.kind === kind) : undefined) || matches[0];
+		if (!found) {
+			break;
+		}
+		level = found.children;
+	}
+	if (found) {
+		return found;
+	}
+
+	const leaf = baseName(path[path.length - 1]);
+	const candidates: T[] = [];
+	const visit = (nodes: T[]) => nodes.forEach(symbol => {
+		if (baseName(symbol.name) === leaf && (kind === undefined || symbol.kind === kind)) {
+			candidates.push(symbol);
+		}
+		visit(symbol.children);
+	});
+	visit(symbols);
+	return candidates.length === 1 ? candidates[0] : undefined;
+}
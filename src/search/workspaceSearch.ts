@@ -0,0 +1,276 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CONFIG_SECTION } from '../data/referenceDataManager';
+import { describeOffset } from './locationPicker';
+
+// 片段在文件中的一处匹配（文本偏移）
+export interface SnippetMatch {
+	uri: vscode.Uri;
+	start: number;
+	end: number;
+	// 匹配所在行号（从0开始）和该行内容
+	line: number;
+	preview: string;
+}
+
+// 一次全局搜索的结果
+export interface SnippetSearchResult {
+	matches: SnippetMatch[];
+	// 实际搜索过的文本文件数
+	searchedFiles: number;
+	// 因二进制或过大而跳过的文件数
+	skippedFiles: number;
+	cancelled: boolean;
+}
+
+// 索引中的文件内容，null 表示二进制或过大的文件
+type IndexedContent = string | null;
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+// 每批并发读取的文件数
+const READ_BATCH_SIZE = 32;
+// 判断二进制文件时检查的字节数
+const BINARY_SNIFF_LENGTH = 8000;
+// 内存中缓存的文件内容总字符数上限，超出时先丢弃最久未使用的文件，之后需要时重新读取
+const MAX_CACHED_CHARS = 32 * 1024 * 1024;
+
+// 按总大小限制的文件内容缓存，最近使用的排在最后
+class ContentCache {
+	private entries = new Map<string, IndexedContent>();
+	private size = 0;
+
+	constructor(private readonly maxSize: number) { }
+
+	get(key: string): IndexedContent | undefined {
+		const content = this.entries.get(key);
+		if (content !== undefined) {
+			this.entries.delete(key);
+			this.entries.set(key, content);
+		}
+		return content;
+	}
+
+	set(key: string, content: IndexedContent): void {
+		this.delete(key);
+		this.entries.set(key, content);
+		this.size += this.sizeOf(key, content);
+		for (const [oldest, value] of this.entries) {
+			if (this.size <= this.maxSize || oldest === key) {
+				break;
+			}
+			this.entries.delete(oldest);
+			this.size -= this.sizeOf(oldest, value);
+		}
+	}
+
+	delete(key: string): void {
+		const content = this.entries.get(key);
+		if (content !== undefined && this.entries.delete(key)) {
+			this.size -= this.sizeOf(key, content);
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+		this.size = 0;
+	}
+
+	// 二进制或过大的文件只记录结果，按键的长度计算
+	private sizeOf(key: string, content: IndexedContent): number {
+		return key.length + (content?.length ?? 0);
+	}
+}
+
+// 全局片段搜索服务：维护工作区文件列表和有大小上限的内容缓存，通过文件监听增量更新
+export class WorkspaceSearchService implements vscode.Disposable {
+	private files?: Promise<Map<string, vscode.Uri>>;
+	private contents = new ContentCache(MAX_CACHED_CHARS);
+	private disposables: vscode.Disposable[] = [];
+	private decoder = new TextDecoder('utf-8');
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(uri => this.onFileCreated(uri)),
+			watcher.onDidChange(uri => this.contents.delete(uri.toString())),
+			watcher.onDidDelete(uri => this.onFileDeleted(uri)),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.reset()),
+			vscode.workspace.onDidChangeConfiguration(e => {
+				if (e.affectsConfiguration('files.exclude')
+					|| e.affectsConfiguration('search.exclude')
+					|| e.affectsConfiguration(`${CONFIG_SECTION}.search`)) {
+					this.reset();
+				}
+			})
+		);
+	}
+
+	// 清空索引，下次搜索时重新建立
+	reset(): void {
+		this.files = undefined;
+		this.contents.clear();
+	}
+
+	private async onFileCreated(uri: vscode.Uri): Promise<void> {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!this.files || !folder) {
+			return;
+		}
+		try {
+			// 新建或移入文件夹时无法逐个得知其中的文件，重新建立文件列表
+			const stat = await vscode.workspace.fs.stat(uri);
+			if (stat.type & vscode.FileType.Directory) {
+				this.files = undefined;
+				return;
+			}
+			// 新文件也需要遵守排除规则
+			const relativePath = path.posix.relative(folder.uri.path, uri.path);
+			const matched = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, relativePath), this.getExcludePattern(), 1);
+			if (matched.length > 0 && this.files) {
+				(await this.files).set(uri.toString(), uri);
+			}
+		} catch (error) {
+			console.error('无法索引新文件:', uri.toString(), error);
+		}
+	}
+
+	private async onFileDeleted(uri: vscode.Uri): Promise<void> {
+		const key = uri.toString();
+		this.contents.delete(key);
+		if (!this.files) {
+			return;
+		}
+		// 删除文件夹时，只会收到文件夹本身的事件
+		const prefix = key.endsWith('/') ? key : `${key}/`;
+		const files = await this.files;
+		for (const fileKey of Array.from(files.keys())) {
+			if (fileKey === key || fileKey.startsWith(prefix)) {
+				files.delete(fileKey);
+				this.contents.delete(fileKey);
+			}
+		}
+	}
+
+	// 合并 files.exclude、search.exclude 和 node_modules 的排除规则
+	private getExcludePattern(): string {
+		const patterns = new Set<string>(['**/node_modules/**']);
+		for (const section of ['files.exclude', 'search.exclude']) {
+			const excludes = vscode.workspace.getConfiguration().get<Record<string, unknown>>(section) || {};
+			Object.keys(excludes).forEach(pattern => {
+				if (excludes[pattern] === true) {
+					patterns.add(pattern);
+				}
+			});
+		}
+		return `{${Array.from(patterns).join(',')}}`;
+	}
+
+	private getMaxFileSize(): number {
+		return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('search.maxFileSize', DEFAULT_MAX_FILE_SIZE);
+	}
+
+	// 获取（必要时建立）工作区文件列表
+	private getFiles(): Promise<Map<string, vscode.Uri>> {
+		if (!this.files) {
+			this.files = Promise.resolve(vscode.workspace.findFiles('**/*', this.getExcludePattern()))
+				.then(uris => new Map(uris.map(uri => [uri.toString(), uri])));
+			// 建立失败时允许下次重试
+			this.files.catch(() => this.files = undefined);
+		}
+		return this.files;
+	}
+
+	// 读取文件内容，二进制或过大的文件返回 null
+	private async readContent(uri: vscode.Uri): Promise<IndexedContent> {
+		const key = uri.toString();
+		// 已打开且有未保存修改的文档，以编辑器中的内容为准
+		const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+		if (openDocument?.isDirty) {
+			return openDocument.getText();
+		}
+		const cached = this.contents.get(key);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		let content: IndexedContent = null;
+		try {
+			const stat = await vscode.workspace.fs.stat(uri);
+			if (stat.size <= this.getMaxFileSize()) {
+				const bytes = await vscode.workspace.fs.readFile(uri);
+				if (!bytes.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) {
+					content = this.decoder.decode(bytes);
+				}
+			}
+		} catch (error) {
+			console.error('无法读取文件:', uri.toString(), error);
+		}
+		this.contents.set(key, content);
+		return content;
+	}
+
+	// 在工作区中搜索片段，找到 maxMatches 处匹配后提前结束
+	async findSnippet(
+		snippet: string,
+		maxMatches: number,
+		token?: vscode.CancellationToken,
+		progress?: vscode.Progress<{ message?: string; increment?: number }>
+	): Promise<SnippetSearchResult> {
+		const result: SnippetSearchResult = { matches: [], searchedFiles: 0, skippedFiles: 0, cancelled: false };
+		const files = Array.from((await this.getFiles()).values());
+
+		for (let i = 0; i < files.length; i += READ_BATCH_SIZE) {
+			if (token?.isCancellationRequested) {
+				result.cancelled = true;
+				break;
+			}
+
+			const batch = files.slice(i, i + READ_BATCH_SIZE);
+			const contents = await Promise.all(batch.map(uri => this.readContent(uri)));
+			for (let j = 0; j < batch.length; j++) {
+				const content = contents[j];
+				if (content === null) {
+					result.skippedFiles++;
+					continue;
+				}
+				result.searchedFiles++;
+				let index = content.indexOf(snippet);
+				while (index !== -1 && result.matches.length < maxMatches) {
+					result.matches.push({ uri: batch[j], start: index, end: index + snippet.length, ...describeOffset(content, index) });
+					index = content.indexOf(snippet, index + 1);
+				}
+			}
+
+			progress?.report({
+				message: `${Math.min(i + READ_BATCH_SIZE, files.length)}/${files.length}`,
+				increment: (batch.length / files.length) * 100
+			});
+			if (result.matches.length >= maxMatches) {
+				break;
+			}
+		}
+		return result;
+	}
+
+	// 在可取消的进度通知中搜索片段
+	findSnippetWithProgress(snippet: string, maxMatches: number): Thenable<SnippetSearchResult> {
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: '正在全局搜索代码片段...',
+			cancellable: true
+		}, (progress, token) => this.findSnippet(snippet, maxMatches, token, progress));
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+		this.reset();
+	}
+}
+
+// 搜索范围的说明文字，例如"已搜索 120 个文件，跳过 3 个二进制或过大的文件"
+export function describeSearchScope(result: SnippetSearchResult): string {
+	const skipped = result.skippedFiles > 0 ? `，跳过 ${result.skippedFiles} 个二进制或过大的文件` : '';
+	return `已搜索 ${result.searchedFiles} 个文件${skipped}`;
+}
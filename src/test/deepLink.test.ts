@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { buildDeepLink, DeepLinkError, findDeepLinks, findOccurrence, isDeepLink, locateLinkedSnippet, parseDeepLinkQuery, snippetOccurrence } from '../link/deepLink';
+
+suite('Deep Link Test Suite', () => {
+	const queryOf = (link: string) => link.substring(link.indexOf('?') + 1);
+
+	test('round-trips all parameters', () => {
+		const link = buildDeepLink({
+			filePath: 'src/a b.ts',
+			snippet: 'if (a && b) { return "100%"; }',
+			line: 12,
+			column: 5,
+			occurrence: 2,
+			workspace: 'api',
+			refId: 'abc'
+		}, 'vscode-insiders');
+		assert.ok(link.startsWith('vscode-insiders://lirentech.file-ref-tags?filePath='));
+		assert.ok(link.endsWith('&v=2'));
+		assert.deepStrictEqual(parseDeepLinkQuery(queryOf(link)), {
+			filePath: 'src/a b.ts',
+			snippet: 'if (a && b) { return "100%"; }',
+			line: 12,
+			column: 5,
+			occurrence: 2,
+			workspace: 'api',
+			refId: 'abc',
+			version: 2
+		});
+	});
+
+	test('keeps resolving version 1 links', () => {
+		const params = new URLSearchParams();
+		params.append('filePath', 'src/extension.ts');
+		params.append('snippet', 'const a = 1 + 2;');
+		const link = parseDeepLinkQuery(params.toString());
+		assert.strictEqual(link.version, 1);
+		assert.strictEqual(link.filePath, 'src/extension.ts');
+		assert.strictEqual(link.snippet, 'const a = 1 + 2;');
+		assert.strictEqual(parseDeepLinkQuery('snippet=%E4%BF%9D%E5%AD%98').snippet, '保存');
+	});
+
+	test('parses queries already decoded by VS Code', () => {
+		const link = parseDeepLinkQuery('filePath=a.ts&snippet=x && y = 100%&line=3&v=2');
+		assert.strictEqual(link.snippet, 'x && y = 100%');
+		assert.strictEqual(link.line, 3);
+	});
+
+	test('ignores invalid hints and rejects empty links', () => {
+		const link = parseDeepLinkQuery('filePath=a.ts&line=0&col=-1&occurrence=x&v=2');
+		assert.strictEqual(link.line, undefined);
+		assert.strictEqual(link.column, undefined);
+		assert.strictEqual(link.occurrence, undefined);
+		assert.throws(() => parseDeepLinkQuery('line=3'), DeepLinkError);
+		assert.ok(isDeepLink('cursor://lirentech.file-ref-tags?refId=1'));
+		assert.ok(!isDeepLink('vscode://other.extension?refId=1'));
+	});
+
+	test('counts and finds snippet occurrences', () => {
+		const text = 'foo bar foo baz foo';
+		assert.strictEqual(snippetOccurrence(text, 'foo', 8), 2);
+		assert.strictEqual(snippetOccurrence(text, 'bar', 4), undefined);
+		assert.strictEqual(findOccurrence(text, 'foo', 3), 16);
+		assert.strictEqual(findOccurrence(text, 'foo', 4), -1);
+	});
+
+	test('picks the linked occurrence of a repeated snippet', () => {
+		const text = 'a();\nb();\na();\nc();\na();';
+		assert.strictEqual(locateLinkedSnippet(text, 'a();', { occurrence: 2 }, 0.8)?.start, 10);
+		assert.strictEqual(locateLinkedSnippet(text, 'a();', { line: 5 }, 0.8)?.start, 20);
+		assert.strictEqual(locateLinkedSnippet(text, 'a();', {}, 0.8)?.start, 0);
+	});
+
+	test('finds links in text', () => {
+		const url = 'vscode://lirentech.file-ref-tags?filePath=a.ts&snippet=f(x)%20%2B%201';
+		const text = `See [here](${url}). Or <${url}>, or ${url}.\nvscode://other?x=1`;
+		const links = findDeepLinks(text);
+		assert.deepStrictEqual(links.map(l => l.url), [url, url, url]);
+		assert.strictEqual(text.substring(links[0].start, links[0].end), url);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { findGitRepository, gitPathOf, readFileAtCommit, readHead, readRemoteUrl } from '../data/gitRepository';
+
+suite('Git Repository Test Suite', () => {
+	let root: string;
+	const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: root, encoding: 'utf8' }).trim();
+	const lines = (count: number, changed?: number) => Array.from({ length: count }, (_, i) => i === changed ? `changed ${i}` : `line ${i}`).join('\n');
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-ref-tags-git-'));
+		git('init', '-q');
+		git('remote', 'add', 'origin', 'git@example.com:owner/repo.git');
+		fs.mkdirSync(path.join(root, 'src'));
+	});
+
+	teardown(() => fs.rmSync(root, { recursive: true, force: true }));
+
+	test('reads HEAD, the remote URL and file contents from loose objects', async () => {
+		const file = path.join(root, 'src', 'a.ts');
+		fs.writeFileSync(file, 'first');
+		git('add', '.');
+		git('commit', '-q', '-m', 'first');
+		const first = git('rev-parse', 'HEAD');
+		fs.writeFileSync(file, 'second');
+		git('commit', '-q', '-am', 'second');
+
+		const repository = (await findGitRepository(file))!;
+		assert.strictEqual(fs.realpathSync(repository.root), fs.realpathSync(root));
+		assert.strictEqual(gitPathOf(repository, file), 'src/a.ts');
+		assert.strictEqual(await readHead(repository), git('rev-parse', 'HEAD'));
+		assert.strictEqual(await readRemoteUrl(repository), 'git@example.com:owner/repo.git');
+		assert.strictEqual((await readFileAtCommit(repository, first, 'src/a.ts'))!.toString(), 'first');
+		assert.strictEqual(await readFileAtCommit(repository, first, 'src/missing.ts'), undefined);
+	});
+
+	test('reads delta-compressed objects from pack files', async () => {
+		const file = path.join(root, 'src', 'a.ts');
+		const commits: string[] = [];
+		for (let i = 0; i < 5; i++) {
+			fs.writeFileSync(file, lines(200, i * 40));
+			git('add', '.');
+			git('commit', '-q', '-m', `commit ${i}`);
+			commits.push(git('rev-parse', 'HEAD'));
+		}
+		git('gc', '-q', '--aggressive');
+
+		const repository = (await findGitRepository(file))!;
+		assert.strictEqual(await readHead(repository), commits[4]);
+		for (let i = 0; i < 5; i++) {
+			assert.strictEqual((await readFileAtCommit(repository, commits[i], 'src/a.ts'))!.toString(), lines(200, i * 40));
+		}
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { formatLink, LinkContext, previewSnippet, renderLinkTemplate } from '../link/linkFormat';
+import { buildCfHtml } from '../link/richClipboard';
+
+suite('Link Format Test Suite', () => {
+	const context: LinkContext = {
+		url: 'vscode://lirentech.file-ref-tags?filePath=a.ts&snippet=f(x)&v=2',
+		title: 'src/[a].ts:3',
+		fileName: 'a.ts',
+		relativePath: 'src/a.ts',
+		line: 3,
+		snippet: '\n  f(x)\n',
+		snippetPreview: 'f(x)'
+	};
+
+	test('formats Markdown and HTML links', () => {
+		assert.strictEqual(formatLink('url', context), context.url);
+		assert.strictEqual(formatLink('markdown', context),
+			'[src/\\[a\\].ts:3](vscode://lirentech.file-ref-tags?filePath=a.ts&snippet=f%28x%29&v=2)');
+		assert.strictEqual(formatLink('html', { ...context, title: '<b>' }),
+			'<a href="vscode://lirentech.file-ref-tags?filePath=a.ts&amp;snippet=f(x)&amp;v=2">&lt;b&gt;</a>');
+	});
+
+	test('renders template placeholders', () => {
+		assert.strictEqual(
+			renderLinkTemplate('${relativePath}#L${line} `${snippetPreview}` ${url} ${unknown}', { ...context, url: 'u' }),
+			'src/a.ts#L3 `f(x)` u '
+		);
+		assert.strictEqual(renderLinkTemplate('${line}', { url: 'u', title: 't' }), '');
+		assert.strictEqual(renderLinkTemplate('${constructor}${toString}${title}', { url: 'u', title: 't' }), 't');
+	});
+
+	test('previews the first non-empty line', () => {
+		assert.strictEqual(previewSnippet('\n  const a = 1;\nconst b = 2;'), 'const a = 1;');
+		assert.strictEqual(previewSnippet('abcdef', 4), 'abc…');
+	});
+
+	test('builds CF_HTML with byte offsets', () => {
+		const data = buildCfHtml('<a>保存</a>');
+		const bytes = Buffer.from(data, 'utf8');
+		const offset = (name: string) => parseInt(new RegExp(`${name}:(\\d+)`).exec(data)![1], 10);
+		assert.strictEqual(bytes.subarray(offset('StartFragment'), offset('EndFragment')).toString('utf8'), '<a>保存</a>');
+		assert.strictEqual(offset('EndHTML'), bytes.length);
+	});
+});
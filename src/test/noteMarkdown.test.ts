@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { buildDeepLink } from '../link/deepLink';
+import { renderNoteMarkdown } from '../view/noteMarkdown';
+
+suite('Note Markdown Test Suite', () => {
+	test('renders blocks', () => {
+		assert.strictEqual(
+			renderNoteMarkdown('# Title\n\nfirst line\nsecond *line*\n\n- a\n- **b**\n1. one\n> quoted\n```\n<code>\n```'),
+			[
+				'<h1>Title</h1>',
+				'<p>first line<br>second <em>line</em></p>',
+				'<ul><li>a</li><li><strong>b</strong></li></ul>',
+				'<ol><li>one</li></ol>',
+				'<blockquote>quoted</blockquote>',
+				'<pre><code>&lt;code&gt;</code></pre>'
+			].join('\n')
+		);
+	});
+
+	test('escapes HTML and keeps inline code literal', () => {
+		assert.strictEqual(
+			renderNoteMarkdown('<img src=x onerror="alert(1)"> `**a** <b>`'),
+			'<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <code>**a** &lt;b&gt;</code></p>'
+		);
+	});
+
+	test('renders only allowed links', () => {
+		assert.strictEqual(renderNoteMarkdown('[docs](https://example.com/a?b=1&c=2)'),
+			'<p><a href="https://example.com/a?b=1&amp;c=2" title="https://example.com/a?b=1&amp;c=2">docs</a></p>');
+		assert.strictEqual(renderNoteMarkdown('[see](ref:ref-1_a)'),
+			'<p><a href="#" class="note-ref" data-ref-id="ref-1_a">see</a></p>');
+		assert.strictEqual(renderNoteMarkdown('[x](javascript:alert(1)) [y](ref:a"b)'), '<p>x y</p>');
+		// 扩展自己复制的深度链接，authority 后直接是查询部分
+		const deepLink = buildDeepLink({ filePath: 'a.ts', snippet: 'foo bar' });
+		const href = deepLink.replace(/&/g, '&amp;');
+		assert.strictEqual(renderNoteMarkdown(`[link](${deepLink})`), `<p><a href="${href}" title="${href}">link</a></p>`);
+		assert.strictEqual(renderNoteMarkdown('[wiki](https://en.wikipedia.org/wiki/Tree_(data_structure)).'),
+			'<p><a href="https://en.wikipedia.org/wiki/Tree_(data_structure)" title="https://en.wikipedia.org/wiki/Tree_(data_structure)">wiki</a>.</p>');
+	});
+});
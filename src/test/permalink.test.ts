@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { buildPermalink, forgeStyleOf, parseRemoteUrl } from '../link/permalink';
+
+suite('Permalink Test Suite', () => {
+	test('parses https, ssh and scp-style remote URLs', () => {
+		const expected = { origin: 'https://github.com', host: 'github.com', path: 'owner/repo' };
+		assert.deepStrictEqual(parseRemoteUrl('https://github.com/owner/repo.git'), expected);
+		assert.deepStrictEqual(parseRemoteUrl('https://user@github.com/owner/repo/'), expected);
+		assert.deepStrictEqual(parseRemoteUrl('git@github.com:owner/repo.git'), expected);
+		assert.deepStrictEqual(parseRemoteUrl('ssh://git@github.com:2222/owner/repo.git'), expected);
+		assert.deepStrictEqual(parseRemoteUrl('http://git.local:3000/team/sub/repo'),
+			{ origin: 'http://git.local:3000', host: 'git.local:3000', path: 'team/sub/repo' });
+		assert.strictEqual(parseRemoteUrl('/srv/git/repo.git'), undefined);
+		assert.strictEqual(parseRemoteUrl('file:///srv/git/repo.git'), undefined);
+	});
+
+	test('detects the forge style from the host and settings', () => {
+		assert.strictEqual(forgeStyleOf('github.com'), 'github');
+		assert.strictEqual(forgeStyleOf('gitlab.example.com'), 'gitlab');
+		assert.strictEqual(forgeStyleOf('codeberg.org'), 'gitea');
+		assert.strictEqual(forgeStyleOf('git.local:3000', { 'git.local': 'gitea' }), 'gitea');
+		assert.strictEqual(forgeStyleOf('git.local', { 'git.local': 'unknown' }), 'github');
+	});
+
+	test('builds permalinks with line anchors', () => {
+		const remote = parseRemoteUrl('git@example.com:owner/repo.git')!;
+		const sha = '0123456789abcdef0123456789abcdef01234567';
+		assert.strictEqual(buildPermalink(remote, 'github', sha, 'src/a b.ts', { start: 3, end: 5 }),
+			`https://example.com/owner/repo/blob/${sha}/src/a%20b.ts#L3-L5`);
+		assert.strictEqual(buildPermalink(remote, 'gitlab', sha, 'src/a.ts', { start: 3, end: 5 }),
+			`https://example.com/owner/repo/-/blob/${sha}/src/a.ts#L3-5`);
+		assert.strictEqual(buildPermalink(remote, 'gitea', sha, 'src/a.ts', { start: 3, end: 3 }),
+			`https://example.com/owner/repo/src/commit/${sha}/src/a.ts#L3`);
+		assert.strictEqual(buildPermalink(remote, 'github', sha, 'README.md'),
+			`https://example.com/owner/repo/blob/${sha}/README.md`);
+	});
+});
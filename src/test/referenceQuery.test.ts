@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { filterReferences, parseReferenceQuery, parseTags } from '../search/referenceQuery';
+import { ReferenceItem } from '../types/referenct';
+
+suite('Reference Query Test Suite', () => {
+	const now = new Date().toISOString();
+	const references: ReferenceItem[] = [
+		{ id: '1', type: 'file', title: 'extension.ts', filePath: '/repo/src/extension.ts', comment: 'Entry **point**', createdAt: now, updatedAt: now },
+		{ id: '2', type: 'file-snippet', title: 'login handler', filePath: '/repo/src/auth.ts', snippet: 'function login()', tags: ['auth', 'todo'], createdAt: now, updatedAt: now },
+		{ id: '3', type: 'comment', title: 'Remember to refactor auth', createdAt: now, updatedAt: now }
+	];
+	const ids = (input: string) => filterReferences(references, input).map(r => r.id);
+
+	test('parses type and tag filters', () => {
+		assert.deepStrictEqual(parseReferenceQuery('Auth type:file-snippet tag:todo #x'), {
+			terms: ['auth'],
+			types: ['file-snippet'],
+			tags: ['todo', 'x']
+		});
+	});
+
+	test('matches titles, snippets, paths, notes and tags', () => {
+		assert.deepStrictEqual(ids('auth'), ['2', '3']);
+		assert.deepStrictEqual(ids('login()'), ['2']);
+		assert.deepStrictEqual(ids('src/extension'), ['1']);
+		assert.deepStrictEqual(ids('entry'), ['1']);
+	});
+
+	test('filters by type and tag', () => {
+		assert.deepStrictEqual(ids('auth type:comment'), ['3']);
+		assert.deepStrictEqual(ids('tag:todo'), ['2']);
+		assert.deepStrictEqual(ids(''), ['1', '2', '3']);
+	});
+
+	test('normalizes tag input', () => {
+		assert.deepStrictEqual(parseTags('#auth, todo，auth  ui'), ['auth', 'todo', 'ui']);
+	});
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildDeepLink } from '../link/deepLink';
+import { detectFormat, exportCsv, exportJson, exportMarkdown, findDuplicates, parseImport, planImport, rebasePaths, relativizePaths } from '../data/referenceTransfer';
+import { ReferenceItem } from '../types/referenct';
+
+suite('Reference Transfer Test Suite', () => {
+	const now = '2024-01-01T00:00:00.000Z';
+	const root = path.resolve('/work/app');
+	const item = (fields: Partial<ReferenceItem> & Pick<ReferenceItem, 'id' | 'type' | 'title'>): ReferenceItem =>
+		({ createdAt: now, updatedAt: now, ...fields });
+	const references = [
+		item({ id: 'g', type: 'group', title: 'Parser' }),
+		item({ id: 'a', type: 'file-snippet', title: 'parse [entry]', filePath: 'src/parse.ts', startLine: 9, snippet: 'const a = "x, y";\n```inner```', tags: ['todo', 'api'], comment: '备注\n\n第二段', parentId: 'g' }),
+		item({ id: 'b', type: 'file', title: 'README', filePath: 'README.md' }),
+		item({ id: 'c', type: 'comment', title: '记得检查' })
+	];
+	// 比较导入结果时忽略重新生成的id和时间
+	const shape = (items: ReferenceItem[]) => {
+		const titles = new Map(items.map(r => [r.id, r.title]));
+		return items.map(r => ({
+			type: r.type,
+			title: r.title,
+			filePath: r.filePath,
+			startLine: r.startLine,
+			snippet: r.snippet,
+			tags: r.tags && r.tags.length > 0 ? r.tags : undefined,
+			comment: r.comment,
+			parent: r.parentId ? titles.get(r.parentId) : undefined
+		}));
+	};
+
+	test('detects the format from the extension or the content', () => {
+		assert.strictEqual(detectFormat('refs.md', ''), 'markdown');
+		assert.strictEqual(detectFormat('refs.CSV', ''), 'csv');
+		assert.strictEqual(detectFormat('refs.txt', '\ufeff{ "references": [] }'), 'json');
+	});
+
+	test('round-trips Markdown exports', () => {
+		const link = (reference: ReferenceItem) => buildDeepLink({ filePath: reference.filePath, snippet: reference.snippet });
+		const markdown = exportMarkdown('看板', references, link);
+		assert.ok(markdown.startsWith('# 看板\n'));
+		assert.ok(markdown.includes('````ts\n'));
+		const imported = parseImport(markdown, 'markdown', now);
+		assert.deepStrictEqual(imported.problems, []);
+		assert.deepStrictEqual(shape(imported.references), shape(references));
+	});
+
+	test('imports hand-written Markdown without type markers', () => {
+		const link = buildDeepLink({ filePath: 'src/main.ts' });
+		const imported = parseImport(`# Notes\n\n## Setup\n\n### [main](${link})\n\n\`\`\`\nmain();\n\`\`\`\n\nStart here.\n`, 'markdown', now);
+		assert.deepStrictEqual(shape(imported.references), [
+			{ type: 'group', title: 'Setup', filePath: undefined, startLine: undefined, snippet: undefined, tags: undefined, comment: undefined, parent: undefined },
+			{ type: 'file-snippet', title: 'main', filePath: 'src/main.ts', startLine: undefined, snippet: 'main();', tags: undefined, comment: 'Start here.', parent: 'Setup' }
+		]);
+	});
+
+	test('round-trips CSV exports and reports invalid rows', () => {
+		const csv = exportCsv(references);
+		assert.ok(csv.startsWith('\ufefftype,title,path,line,snippet,note,tags,group\r\n'));
+		const imported = parseImport(csv, 'csv', now);
+		assert.deepStrictEqual(imported.problems, []);
+		assert.deepStrictEqual(shape(imported.references), shape(references));
+
+		const invalid = parseImport('Title,Line\nok,3\nbad,zero\n,1\n', 'csv', now);
+		assert.deepStrictEqual(invalid.references.map(r => r.title), ['ok']);
+		assert.strictEqual(invalid.problems.length, 2);
+	});
+
+	test('imports JSON exports without boards', () => {
+		const imported = parseImport(exportJson([{ ...references[2], boardId: 'board-1' }]), 'json', now);
+		assert.strictEqual(imported.references.length, 1);
+		assert.strictEqual(imported.references[0].boardId, undefined);
+	});
+
+	test('makes workspace paths relative and resolves them in another workspace', () => {
+		const local = [item({ id: 'a', type: 'file', title: 'a', filePath: path.join(root, 'src', 'a.ts') })];
+		const exported = relativizePaths(local, [{ name: 'app', path: root }]);
+		assert.strictEqual(exported[0].filePath, 'src/a.ts');
+		assert.strictEqual(exported[0].workspaceFolder, 'app');
+
+		const other = path.resolve('/home/me/app');
+		assert.strictEqual(rebasePaths(exported, [{ name: 'app', path: other }])[0].filePath, path.join(other, 'src', 'a.ts'));
+		// 其他电脑上的绝对路径按工作区文件夹名称重新解析
+		const foreign = [{ ...local[0], filePath: 'C:\\work\\app\\src\\a.ts', workspaceFolder: 'app' }];
+		assert.strictEqual(rebasePaths(foreign, [{ name: 'app', path: other }])[0].filePath, path.join(other, 'src', 'a.ts'));
+	});
+
+	test('skips or renames duplicates', () => {
+		const existing = [
+			item({ id: 'x', type: 'group', title: 'Parser' }),
+			item({ id: 'y', type: 'file', title: 'Readme', filePath: 'README.md' })
+		];
+		assert.deepStrictEqual([...findDuplicates(references, existing)], [['g', 'x'], ['b', 'y']]);
+
+		const skipped = planImport(references, existing, 'skip');
+		assert.deepStrictEqual(skipped.map(r => [r.title, r.parentId]), [['parse [entry]', 'x'], ['记得检查', undefined]]);
+
+		const renamed = planImport(references, existing, 'rename');
+		assert.deepStrictEqual(renamed.map(r => r.title), ['Parser (2)', 'parse [entry]', 'README (2)', '记得检查']);
+	});
+});
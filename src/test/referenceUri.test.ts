@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { isReferenceTo, locationForDocument, referenceUri, uriExists } from '../data/referenceUri';
+
+// 只支持单层文件的内存文件系统，用来模拟远程和虚拟文件系统
+class MemoryFileSystem implements vscode.FileSystemProvider {
+	private readonly files = new Map<string, Uint8Array>();
+	private readonly emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile = this.emitter.event;
+
+	stat(uri: vscode.Uri): vscode.FileStat {
+		const content = this.files.get(uri.path);
+		if (!content) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return { type: vscode.FileType.File, ctime: 0, mtime: 0, size: content.byteLength };
+	}
+
+	readFile(uri: vscode.Uri): Uint8Array {
+		const content = this.files.get(uri.path);
+		if (!content) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return content;
+	}
+
+	writeFile(uri: vscode.Uri, content: Uint8Array): void {
+		this.files.set(uri.path, content);
+	}
+
+	delete(uri: vscode.Uri): void {
+		this.files.delete(uri.path);
+	}
+
+	watch(): vscode.Disposable {
+		return new vscode.Disposable(() => undefined);
+	}
+
+	readDirectory(): [string, vscode.FileType][] {
+		return [...this.files.keys()].map(name => [name.substring(1), vscode.FileType.File]);
+	}
+
+	createDirectory(): void {}
+
+	rename(): void {}
+}
+
+suite('Reference URI Test Suite', () => {
+	const memfs = new MemoryFileSystem();
+	let registration: vscode.Disposable;
+
+	suiteSetup(() => {
+		registration = vscode.workspace.registerFileSystemProvider('memfs', memfs);
+	});
+
+	suiteTeardown(() => registration.dispose());
+
+	test('keeps the full URI of documents from other file systems', async () => {
+		const uri = vscode.Uri.parse('memfs://host/notes.ts');
+		await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode('const a = 1;'));
+
+		const location = locationForDocument(uri);
+		assert.ok(typeof location !== 'string');
+		assert.strictEqual(location.uri, uri.toString());
+		assert.strictEqual(referenceUri(location)!.toString(), uri.toString());
+		assert.ok(isReferenceTo(location, uri));
+		assert.ok(await uriExists(uri));
+
+		// 通过 workspace.fs 重新打开
+		const document = await vscode.workspace.openTextDocument(referenceUri(location)!);
+		assert.strictEqual(document.getText(), 'const a = 1;');
+
+		await vscode.workspace.fs.delete(uri);
+		assert.strictEqual(await uriExists(uri), false);
+	});
+
+	test('stores local files as paths', () => {
+		const uri = vscode.Uri.file('/repo/src/a.ts');
+		const location = locationForDocument(uri);
+		assert.deepStrictEqual(location, { filePath: uri.fsPath });
+		assert.strictEqual(referenceUri(location as { filePath: string })!.toString(), uri.toString());
+		assert.ok(isReferenceTo(location as { filePath: string }, uri));
+		assert.ok(!isReferenceTo(location as { filePath: string }, uri.with({ scheme: 'memfs' })));
+	});
+
+	test('rejects documents that cannot be reopened', () => {
+		assert.strictEqual(typeof locationForDocument(vscode.Uri.parse('untitled:Untitled-1')), 'string');
+		assert.strictEqual(typeof locationForDocument(vscode.Uri.parse('unknown-scheme:/a.ts')), 'string');
+	});
+});
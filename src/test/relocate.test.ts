@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { findSnippetCandidates, locateSnippet, relocateSnippet } from '../search/relocate';
+
+suite('Snippet Relocation Test Suite', () => {
+	const text = 'function foo() {\r\n    const a = 1;\r\n    return a + 2;\r\n}\n\nfunction bar() {}\n';
+
+	test('exact match has score 1', () => {
+		const candidate = relocateSnippet(text, 'function bar() {}');
+		assert.ok(candidate);
+		assert.strictEqual(candidate.score, 1);
+		assert.strictEqual(text.substring(candidate.start, candidate.end), 'function bar() {}');
+	});
+
+	test('tolerates indentation and line ending changes', () => {
+		const candidate = relocateSnippet(text, 'const a = 1;\n  return a + 2;');
+		assert.ok(candidate);
+		assert.strictEqual(candidate.text, 'const a = 1;\r\n    return a + 2;');
+	});
+
+	test('tolerates small edits inside the snippet', () => {
+		const candidate = relocateSnippet(text, 'const alpha = 1;\nreturn alpha + 2;');
+		assert.ok(candidate);
+		assert.ok(candidate.score < 1);
+		assert.strictEqual(candidate.text, 'const a = 1;\r\n    return a + 2;');
+	});
+
+	test('returns nothing below the threshold', () => {
+		assert.strictEqual(relocateSnippet(text, 'completely different stuff here'), undefined);
+	});
+
+	test('lists every exact occurrence', () => {
+		assert.strictEqual(findSnippetCandidates(text, 'function').length, 2);
+	});
+
+	test('picks the occurrence whose context matches', () => {
+		const repeated = 'if (a) {\n\treturn;\n}\nif (b) {\n\treturn;\n}\n';
+		const candidate = locateSnippet(repeated, 'return;', { startLine: 0, contextBefore: 'if (b) {', contextAfter: '}' });
+		assert.ok(candidate);
+		assert.strictEqual(candidate.start, repeated.lastIndexOf('return;'));
+	});
+
+	test('breaks ties by the recorded line with any line endings', () => {
+		const repeated = 'x();\r\nx();\r\n\r\nx();\nx();\r';
+		const candidate = locateSnippet(repeated, 'x();', { startLine: 3 });
+		assert.ok(candidate);
+		assert.strictEqual(candidate.start, repeated.lastIndexOf('x();', repeated.lastIndexOf('x();') - 1));
+	});
+});
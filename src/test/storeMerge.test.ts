@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { mergeStoreData } from '../data/storeMerge';
+import { ReferenceItem, ReferenceStoreData } from '../types/referenct';
+
+suite('Store Merge Test Suite', () => {
+	const item = (id: string, title = id, updatedAt = '2024-01-01T00:00:00.000Z'): ReferenceItem =>
+		({ id, type: 'file', title, filePath: `/repo/${id}.ts`, createdAt: '2024-01-01T00:00:00.000Z', updatedAt });
+	const store = (...references: ReferenceItem[]): ReferenceStoreData => ({ boards: [], references, trash: [] });
+	const titles = (data: ReferenceStoreData) => data.references.map(r => r.title);
+
+	test('keeps additions and edits from both windows', () => {
+		const base = store(item('a'), item('b'));
+		const ours = store(item('a', 'a2', '2024-01-02T00:00:00.000Z'), item('b'), item('c'));
+		const theirs = store(item('a'), item('d'), item('b', 'b2', '2024-01-02T00:00:00.000Z'));
+		assert.deepStrictEqual(titles(mergeStoreData(base, ours, theirs)), ['a2', 'd', 'b2', 'c']);
+	});
+
+	test('applies deletions unless the other window edited the item', () => {
+		const base = store(item('a'), item('b'), item('c'));
+		const ours = store(item('b', 'b2', '2024-01-02T00:00:00.000Z'), item('c'));
+		const theirs = store(item('a'), item('c'));
+		assert.deepStrictEqual(titles(mergeStoreData(base, ours, theirs)), ['b2', 'c']);
+	});
+
+	test('prefers the later edit and the changed order', () => {
+		const base = store(item('a'), item('b'), item('c'));
+		const ours = store(item('c'), item('a', 'ours', '2024-01-03T00:00:00.000Z'), item('b'));
+		const theirs = store(item('a', 'theirs', '2024-01-02T00:00:00.000Z'), item('b'), item('c'));
+		assert.deepStrictEqual(titles(mergeStoreData(base, ours, theirs)), ['c', 'ours', 'b']);
+		assert.deepStrictEqual(titles(mergeStoreData(base, base, theirs)), ['theirs', 'b', 'c']);
+	});
+});
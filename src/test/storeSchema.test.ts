@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { loadStoreContent, serializeStore, STORE_SCHEMA_VERSION, StoreFormatError } from '../data/storeSchema';
+import { ReferenceItem } from '../types/referenct';
+
+suite('Store Schema Test Suite', () => {
+	const now = '2024-01-01T00:00:00.000Z';
+	const reference: ReferenceItem = { id: 'ref-1', type: 'file', title: 'a.ts', filePath: '/repo/a.ts', createdAt: now, updatedAt: now };
+
+	test('migrates bare arrays and unversioned objects', () => {
+		const fromArray = loadStoreContent(JSON.stringify([reference]));
+		assert.strictEqual(fromArray.version, 0);
+		assert.deepStrictEqual(fromArray.data, { boards: [], references: [reference], trash: [] });
+		assert.deepStrictEqual(fromArray.problems, []);
+
+		const fromObject = loadStoreContent(JSON.stringify({ boards: [], references: [reference], trash: [] }));
+		assert.strictEqual(fromObject.version, 1);
+		assert.deepStrictEqual(fromObject.data.references, [reference]);
+	});
+
+	test('round-trips the current version', () => {
+		const data = { boards: [{ id: 'b', name: 'Board', createdAt: now, updatedAt: now }], references: [reference], trash: [] };
+		const content = serializeStore(data);
+		assert.strictEqual(JSON.parse(content).version, STORE_SCHEMA_VERSION);
+		assert.deepStrictEqual(loadStoreContent(content), { data, problems: [], version: STORE_SCHEMA_VERSION });
+	});
+
+	test('skips invalid entries and reports where they are', () => {
+		const { data, problems } = loadStoreContent(JSON.stringify({
+			version: STORE_SCHEMA_VERSION,
+			boards: [{ name: 'no id' }],
+			references: [reference, { ...reference }, { ...reference, id: 'ref-2', type: 'link' }, 'x', { ...reference, id: 'ref-3', tags: 'todo' }, { id: 'ref-4', type: 'comment', title: 'note', snippet: null }],
+			trash: [{ id: 't', title: 'deleted', deletedAt: now, items: [{ id: 'ref-5', type: 'file' }] }]
+		}));
+		assert.deepStrictEqual(data.references.map(r => r.id), ['ref-1', 'ref-4']);
+		assert.strictEqual(data.references[1].snippet, undefined);
+		assert.ok(data.references[1].createdAt);
+		assert.deepStrictEqual(data.trash[0].items, []);
+		assert.deepStrictEqual(problems, [
+			'boards[0]：缺少 id',
+			'references[1]（id: ref-1）：id 重复',
+			'references[2]（id: ref-2）：type 应为 file、file-snippet、global-snippet、symbol、comment、group 之一',
+			'references[3]：不是对象',
+			'references[4]（id: ref-3）：tags 应为 string[]',
+			'trash[0].items[0]（id: ref-5）：缺少 title'
+		]);
+	});
+
+	test('rejects content that cannot be loaded', () => {
+		assert.throws(() => loadStoreContent('{'), StoreFormatError);
+		assert.throws(() => loadStoreContent('42'), StoreFormatError);
+		assert.throws(() => loadStoreContent(JSON.stringify({ version: STORE_SCHEMA_VERSION + 1, references: [] })), /升级扩展/);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { enclosingSymbols, formatSymbolPath, resolveSymbolPath, SymbolNode } from '../search/symbolPath';
+
+// 测试用的符号类型值，与 vscode.SymbolKind 一致
+const CLASS = 4;
+const METHOD = 5;
+const PROPERTY = 6;
+const FUNCTION = 11;
+
+function symbol(name: string, kind: number, startLine: number, endLine: number, children: SymbolNode[] = []): SymbolNode {
+	return { name, kind, startLine, endLine, children };
+}
+
+suite('Symbol Path Test Suite', () => {
+	const outline = [
+		symbol('ReferenceDataManager', CLASS, 0, 40, [
+			symbol('references', PROPERTY, 1, 1),
+			symbol('updateOrder', PROPERTY, 2, 2),
+			symbol('updateOrder', METHOD, 10, 20),
+			symbol('save(force: boolean)', METHOD, 22, 30)
+		]),
+		symbol('helper', FUNCTION, 42, 50)
+	];
+
+	test('finds the enclosing symbols of a line', () => {
+		assert.deepStrictEqual(enclosingSymbols(outline, 12).map(s => s.name), ['ReferenceDataManager', 'updateOrder']);
+		assert.deepStrictEqual(enclosingSymbols(outline, 45).map(s => s.name), ['helper']);
+		assert.deepStrictEqual(enclosingSymbols(outline, 41), []);
+		assert.strictEqual(formatSymbolPath(['ReferenceDataManager', 'updateOrder']), 'ReferenceDataManager > updateOrder');
+	});
+
+	test('resolves a recorded path', () => {
+		assert.strictEqual(resolveSymbolPath(outline, ['ReferenceDataManager', 'updateOrder'], METHOD)?.startLine, 10);
+		assert.strictEqual(resolveSymbolPath(outline, ['ReferenceDataManager', 'updateOrder'], PROPERTY)?.startLine, 2);
+		// 参数列表变化不影响匹配
+		assert.strictEqual(resolveSymbolPath(outline, ['ReferenceDataManager', 'save()'], METHOD)?.startLine, 22);
+		assert.strictEqual(resolveSymbolPath(outline, ['ReferenceDataManager', 'missing'], METHOD), undefined);
+	});
+
+	test('falls back to a unique symbol with the same name and kind', () => {
+		assert.strictEqual(resolveSymbolPath(outline, ['OldContainer', 'helper'], FUNCTION)?.startLine, 42);
+		assert.strictEqual(resolveSymbolPath(outline, ['OldContainer', 'helper'], METHOD), undefined);
+		// 同名同类型的符号不唯一时不猜测
+		const twice = [...outline, symbol('Other', CLASS, 60, 70, [symbol('updateOrder', METHOD, 61, 65)])];
+		assert.strictEqual(resolveSymbolPath(twice, ['Renamed', 'updateOrder'], METHOD), undefined);
+	});
+});
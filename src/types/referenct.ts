@@ -1,11 +1,65 @@
 // 引用项数据结构
 export interface ReferenceItem {
   id: string;
-  type: "file" | "file-snippet" | "global-snippet" | "comment";
+  type: "file" | "file-snippet" | "global-snippet" | "symbol" | "comment" | "group";
   title: string;
   filePath?: string;
+  // 非本地文件（远程、虚拟文件系统等）的完整 URI，本地文件只记录 filePath
+  uri?: string;
+  // 文件所在的工作区文件夹名称，多根工作区中优先在该文件夹中查找
+  workspaceFolder?: string;
   snippet?: string;
   comment?: string;
+  // 自由标签
+  tags?: string[];
+  // 符号引用：从外到内的符号名称（如 ["ReferenceDataManager", "updateOrder"]）和最内层符号的类型（vscode.SymbolKind）
+  symbolPath?: string[];
+  symbolKind?: number;
+  // 添加时文件所在的 git 提交（HEAD）和文件在仓库中的路径（以 / 分隔），用于查看当时的内容和生成网页永久链接
+  gitCommit?: string;
+  gitPath?: string;
+  // 选中片段的起止行（从0开始）
+  startLine?: number;
+  endLine?: number;
+  // 片段前后若干行的上下文，用于在多处匹配时选出正确位置
+  contextBefore?: string;
+  contextAfter?: string;
+  // 引用的文件已被删除（保留引用项，等待修复）
+  orphaned?: boolean;
+  // 所属分组的id，未设置时位于顶层
+  parentId?: string;
+  // 分组是否折叠（仅对 group 类型有效）
+  collapsed?: boolean;
+  // 所属看板的id，未设置时位于默认看板
+  boardId?: string;
   createdAt: string;
   updatedAt: string;
 }
+
+// 引用看板：把同一存储位置中的引用项按主题分开
+export interface ReferenceBoard {
+  id: string;
+  name: string;
+  // 已归档的看板不在切换器的常用列表中显示
+  archived?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 回收站中的一次删除：被删除的引用项（分组连同其中的内容）或整个看板
+export interface TrashEntry {
+  id: string;
+  title: string;
+  items: ReferenceItem[];
+  deletedAt: string;
+}
+
+// 存储文件的内容；文件中另有格式版本号 version，旧版本的引用项数组在加载时自动迁移（见 data/storeSchema.ts）
+export interface ReferenceStoreData {
+  boards: ReferenceBoard[];
+  references: ReferenceItem[];
+  trash: TrashEntry[];
+}
+
+// 引用存储位置：全局 / 当前工作区 / 仓库内的团队共享文件
+export type ReferenceStoreKind = "global" | "workspace" | "shared";
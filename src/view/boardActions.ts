@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { ReferenceBoard } from '../types/referenct';
+import { CONFIG_SECTION, DEFAULT_BOARD_ID, ReferenceDataManager } from '../data/referenceDataManager';
+
+// 看板的新建、改名、复制、归档、删除和切换
+
+type BoardPickItem = vscode.QuickPickItem & { board?: ReferenceBoard };
+
+// 看板选择框的选项，已归档的看板放在最后
+function boardItems(dataManager: ReferenceDataManager, includeArchived: boolean): BoardPickItem[] {
+	const activeId = dataManager.getActiveBoard().id;
+	const toItem = (board: ReferenceBoard): BoardPickItem => ({
+		label: board.name,
+		description: [
+			board.id === activeId ? '当前' : '',
+			`${dataManager.countBoardReferences(board.id)} 项`
+		].filter(Boolean).join(' · '),
+		board
+	});
+	const boards = dataManager.getBoards();
+	const items = boards.filter(b => !b.archived).map(toItem);
+	const archived = boards.filter(b => b.archived);
+	if (includeArchived && archived.length > 0) {
+		items.push({ label: '已归档', kind: vscode.QuickPickItemKind.Separator }, ...archived.map(toItem));
+	}
+	return items;
+}
+
+async function inputBoardName(title: string, value?: string): Promise<string | undefined> {
+	const name = await vscode.window.showInputBox({
+		prompt: title,
+		value,
+		validateInput: input => input.trim() ? undefined : '看板名称不能为空'
+	});
+	return name?.trim() || undefined;
+}
+
+// 新建看板并切换到该看板
+export async function createBoard(dataManager: ReferenceDataManager): Promise<ReferenceBoard | undefined> {
+	const name = await inputBoardName('请输入新看板的名称');
+	if (!name) {
+		return undefined;
+	}
+	const board = dataManager.createBoard(name);
+	dataManager.switchBoard(board.id);
+	return board;
+}
+
+// 修改当前看板的名称
+export async function renameBoard(dataManager: ReferenceDataManager): Promise<void> {
+	const board = dataManager.getActiveBoard();
+	const name = await inputBoardName('请输入看板的新名称', board.name);
+	if (name && name !== board.name) {
+		dataManager.updateBoard(board.id, { name });
+	}
+}
+
+// 复制当前看板及其中的引用项，并切换到副本
+export async function duplicateBoard(dataManager: ReferenceDataManager): Promise<void> {
+	const board = dataManager.getActiveBoard();
+	const name = await inputBoardName('请输入副本的名称', `${board.name} 副本`);
+	if (!name) {
+		return;
+	}
+	const copy = dataManager.duplicateBoard(board.id, name);
+	if (copy) {
+		dataManager.switchBoard(copy.id);
+	}
+}
+
+// 归档或取消归档当前看板
+export async function toggleArchiveBoard(dataManager: ReferenceDataManager): Promise<void> {
+	const board = dataManager.getActiveBoard();
+	if (board.id === DEFAULT_BOARD_ID) {
+		vscode.window.showWarningMessage('默认看板不能归档');
+		return;
+	}
+	const archived = !board.archived;
+	dataManager.updateBoard(board.id, { archived });
+	vscode.window.showInformationMessage(archived ? `已归档看板：${board.name}` : `已取消归档看板：${board.name}`);
+}
+
+// 删除当前看板，其中的引用项移到回收站
+export async function deleteBoard(dataManager: ReferenceDataManager): Promise<void> {
+	const board = dataManager.getActiveBoard();
+	if (board.id === DEFAULT_BOARD_ID) {
+		vscode.window.showWarningMessage('默认看板不能删除');
+		return;
+	}
+	const count = dataManager.countBoardReferences(board.id);
+	const confirm = await vscode.window.showWarningMessage(
+		`确定要删除看板"${board.name}"吗？其中的 ${count} 个引用项会移到回收站。`,
+		{ modal: true },
+		'删除'
+	);
+	if (confirm === '删除') {
+		dataManager.deleteBoard(board.id);
+	}
+}
+
+// 选择并切换看板
+export async function switchBoard(dataManager: ReferenceDataManager): Promise<void> {
+	const items: BoardPickItem[] = [...boardItems(dataManager, true), { label: '$(add) 新建看板...' }];
+	const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择要切换到的看板' });
+	if (!picked) {
+		return;
+	}
+	if (picked.board) {
+		dataManager.switchBoard(picked.board.id);
+	} else {
+		await createBoard(dataManager);
+	}
+}
+
+// 看板操作菜单（面板中的"⋯"按钮）
+export async function showBoardActions(dataManager: ReferenceDataManager): Promise<void> {
+	const board = dataManager.getActiveBoard();
+	const isDefault = board.id === DEFAULT_BOARD_ID;
+	const actions: (vscode.QuickPickItem & { run: (dataManager: ReferenceDataManager) => Promise<unknown> })[] = [
+		{ label: '$(add) 新建看板', run: createBoard },
+		{ label: '$(edit) 重命名看板', run: renameBoard },
+		{ label: '$(copy) 复制看板', run: duplicateBoard },
+		...(isDefault ? [] : [
+			{ label: board.archived ? '$(inbox) 取消归档看板' : '$(archive) 归档看板', run: toggleArchiveBoard },
+			{ label: '$(trash) 删除看板', run: deleteBoard }
+		])
+	];
+	const picked = await vscode.window.showQuickPick(actions, { placeHolder: `看板：${board.name}` });
+	await picked?.run(dataManager);
+}
+
+// 添加引用项时的目标看板：开启 fileRefTags.boards.askOnAdd 且有多个看板时让用户选择，取消时返回 undefined
+export async function pickBoardForAdd(dataManager: ReferenceDataManager): Promise<string | undefined> {
+	const activeId = dataManager.getActiveBoard().id;
+	const ask = vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('boards.askOnAdd', false);
+	const items = boardItems(dataManager, false);
+	if (!ask || items.length <= 1) {
+		return activeId;
+	}
+	// 当前看板放在最前，方便直接回车
+	items.sort((a, b) => Number(b.board?.id === activeId) - Number(a.board?.id === activeId));
+	const picked = await vscode.window.showQuickPick(items, { placeHolder: '选择要添加到的看板' });
+	return picked?.board?.id;
+}
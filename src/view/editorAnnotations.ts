@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { ReferenceItem } from '../types/referenct';
+import { CONFIG_SECTION, getRelocationThreshold, ReferenceDataManager } from '../data/referenceDataManager';
+import { isReferenceTo } from '../data/referenceUri';
+import { locateSnippet } from '../search/relocate';
+
+// 编辑器中被引用的一段代码
+interface AnnotatedRange {
+	range: vscode.Range;
+	reference: ReferenceItem;
+}
+
+// 文档内容变化后延迟刷新的时间
+const REFRESH_DELAY = 300;
+
+// 在编辑器中标记被面板引用的代码：装饰、CodeLens 和悬停提示
+export class ReferenceAnnotations implements vscode.CodeLensProvider, vscode.HoverProvider, vscode.Disposable {
+	private readonly decorationType: vscode.TextEditorDecorationType;
+	private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+	// 按文档缓存的匹配结果，文档版本变化后失效
+	private cache = new Map<string, { version: number; ranges: AnnotatedRange[] }>();
+	private refreshTimer?: ReturnType<typeof setTimeout>;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(extensionUri: vscode.Uri, private readonly dataManager: ReferenceDataManager) {
+		this.decorationType = vscode.window.createTextEditorDecorationType({
+			gutterIconPath: vscode.Uri.joinPath(extensionUri, 'resources', 'gutter.svg'),
+			gutterIconSize: 'contain',
+			backgroundColor: 'rgba(180, 40, 80, 0.08)',
+			overviewRulerColor: 'rgba(180, 40, 80, 0.6)',
+			overviewRulerLane: vscode.OverviewRulerLane.Left
+		});
+
+		this.disposables.push(
+			this.decorationType,
+			this._onDidChangeCodeLenses,
+			vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+			vscode.languages.registerHoverProvider({ scheme: 'file' }, this),
+			dataManager.onDidChange(() => this.refresh()),
+			vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations()),
+			vscode.workspace.onDidChangeTextDocument(e => {
+				if (this.cache.has(e.document.uri.toString())) {
+					this.scheduleRefresh();
+				}
+			}),
+			vscode.workspace.onDidCloseTextDocument(doc => this.cache.delete(doc.uri.toString())),
+			vscode.workspace.onDidChangeConfiguration(e => {
+				if (e.affectsConfiguration(`${CONFIG_SECTION}.annotations`) || e.affectsConfiguration(`${CONFIG_SECTION}.relocationThreshold`)) {
+					this.refresh();
+				}
+			})
+		);
+		this.updateDecorations();
+	}
+
+	private isEnabled(feature: 'decorations' | 'codeLens' | 'hover'): boolean {
+		return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>(`annotations.${feature}`, true);
+	}
+
+	// 切换所有编辑器标记的开关
+	async toggle(): Promise<void> {
+		const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+		const enabled = !(this.isEnabled('decorations') || this.isEnabled('codeLens') || this.isEnabled('hover'));
+		for (const feature of ['decorations', 'codeLens', 'hover']) {
+			await config.update(`annotations.${feature}`, enabled, vscode.ConfigurationTarget.Global);
+		}
+		vscode.window.showInformationMessage(enabled ? '已开启编辑器中的引用标记' : '已关闭编辑器中的引用标记');
+	}
+
+	// 查找文档中被引用的代码范围
+	private getRanges(document: vscode.TextDocument): AnnotatedRange[] {
+		const key = document.uri.toString();
+		const cached = this.cache.get(key);
+		if (cached && cached.version === document.version) {
+			return cached.ranges;
+		}
+
+		const text = document.getText();
+		const threshold = getRelocationThreshold();
+		const ranges: AnnotatedRange[] = [];
+		for (const reference of this.dataManager.getReferences()) {
+			if (!reference.snippet) {
+				continue;
+			}
+			// 符号引用的片段是声明所在的行
+			if ((reference.type === 'file-snippet' || reference.type === 'symbol') && isReferenceTo(reference, document.uri)) {
+				const candidate = locateSnippet(text, reference.snippet, reference, threshold);
+				if (candidate) {
+					ranges.push({ range: new vscode.Range(document.positionAt(candidate.start), document.positionAt(candidate.end)), reference });
+				}
+			} else if (reference.type === 'global-snippet') {
+				// 全局片段可能出现在任意文件中，只标记精确匹配
+				const index = text.indexOf(reference.snippet);
+				if (index !== -1) {
+					ranges.push({ range: new vscode.Range(document.positionAt(index), document.positionAt(index + reference.snippet.length)), reference });
+				}
+			}
+		}
+
+		this.cache.set(key, { version: document.version, ranges });
+		return ranges;
+	}
+
+	private scheduleRefresh(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY);
+	}
+
+	// 清空缓存并刷新所有标记
+	private refresh(): void {
+		this.cache.clear();
+		this.updateDecorations();
+		this._onDidChangeCodeLenses.fire();
+	}
+
+	private updateDecorations(): void {
+		const enabled = this.isEnabled('decorations');
+		for (const editor of vscode.window.visibleTextEditors) {
+			if (editor.document.uri.scheme !== 'file') {
+				continue;
+			}
+			const ranges = enabled ? this.getRanges(editor.document) : [];
+			editor.setDecorations(this.decorationType, ranges.map(({ range }) => range));
+		}
+	}
+
+	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		if (!this.isEnabled('codeLens')) {
+			return [];
+		}
+		return this.getRanges(document).map(({ range, reference }) => new vscode.CodeLens(
+			new vscode.Range(range.start, range.start),
+			{
+				title: `$(bookmark) ${reference.title}`,
+				tooltip: '在 File Ref Tags 面板中查看',
+				command: 'file-ref-tags.list-view.focus'
+			}
+		));
+	}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		if (!this.isEnabled('hover')) {
+			return undefined;
+		}
+		const matches = this.getRanges(document).filter(({ range }) => range.contains(position));
+		if (matches.length === 0) {
+			return undefined;
+		}
+
+		const contents = matches.map(({ reference }) => {
+			const markdown = new vscode.MarkdownString();
+			markdown.appendMarkdown(`**File Ref Tags**：${escapeMarkdown(reference.title)}`);
+			if (reference.tags && reference.tags.length > 0) {
+				markdown.appendMarkdown(`\n\n${reference.tags.map(tag => `\`${tag}\``).join(' ')}`);
+			}
+			if (reference.comment) {
+				markdown.appendMarkdown(`\n\n${reference.comment}`);
+			}
+			return markdown;
+		});
+		return new vscode.Hover(contents);
+	}
+
+	dispose(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+	}
+}
+
+// 转义标题中的 Markdown 特殊字符
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
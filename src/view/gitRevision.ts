@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { ReferenceItem } from '../types/referenct';
+import { CONFIG_SECTION, getRelocationThreshold } from '../data/referenceDataManager';
+import { currentRevision, findGitRepository, GitRepository, gitPathOf, readFileAtCommit, readRemoteUrl } from '../data/gitRepository';
+import { buildPermalink, forgeStyleOf, LineRange, parseRemoteUrl } from '../link/permalink';
+import { locateSnippet, SnippetAnchor } from '../search/relocate';
+
+// 提交中文件内容的只读文档，路径为 /<提交前7位>/<文件在仓库中的路径>，查询部分记录仓库目录和完整提交
+export const GIT_REVISION_SCHEME = 'file-ref-tags-git';
+
+// 引用项在某个提交中的文件
+interface RevisionTarget {
+	repository: GitRepository;
+	commit: string;
+	gitPath: string;
+}
+
+// 提交中片段所在的行（从1开始）；片段在该提交中找不到时退回到记录的行号
+function snippetLines(content: string, snippet: string | undefined, anchor: SnippetAnchor): { lines?: LineRange; found: boolean } {
+	const candidate = snippet ? locateSnippet(content, snippet, anchor, getRelocationThreshold()) : undefined;
+	if (candidate) {
+		const lineAt = (offset: number) => content.substring(0, offset).split('\n').length;
+		return { lines: { start: lineAt(candidate.start), end: lineAt(Math.max(candidate.start, candidate.end - 1)) }, found: true };
+	}
+	const lines = anchor.startLine !== undefined
+		? { start: anchor.startLine + 1, end: (anchor.endLine ?? anchor.startLine) + 1 }
+		: undefined;
+	return { lines, found: false };
+}
+
+// 查看引用项添加时所在提交中的文件内容，并复制代码托管网站上的永久链接；全部从本地 .git 目录读取
+export class GitRevisionProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this.disposables.push(vscode.workspace.registerTextDocumentContentProvider(GIT_REVISION_SCHEME, this));
+	}
+
+	async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+		const query = new URLSearchParams(uri.query);
+		const repository = { root: query.get('root') || '', gitDir: query.get('gitDir') || '', commonDir: query.get('commonDir') || '' };
+		const content = await readFileAtCommit(repository, query.get('commit') || '', query.get('path') || '');
+		return content?.toString('utf8') || '';
+	}
+
+	// 记录时的提交；没有记录提交的引用项（如旧版本添加的）使用文件当前所在的提交
+	private async target(reference: ReferenceItem, recordedOnly: boolean): Promise<RevisionTarget | string> {
+		if (!reference.filePath || reference.uri) {
+			return '只有本地文件的引用可以使用 git 信息';
+		}
+		if (reference.gitCommit) {
+			const repository = await findGitRepository(reference.filePath);
+			return repository
+				? { repository, commit: reference.gitCommit, gitPath: reference.gitPath || gitPathOf(repository, reference.filePath) }
+				: '找不到引用文件所在的 git 仓库';
+		}
+		if (recordedOnly) {
+			return '该引用没有记录提交，只有在 git 仓库中添加的片段引用会记录';
+		}
+		return await currentRevision(reference.filePath) || '引用文件不在 git 仓库中，或仓库还没有提交';
+	}
+
+	// 打开记录时提交中的文件，并选中当时的片段
+	async openAtRecordedCommit(reference: ReferenceItem): Promise<void> {
+		await this.guarded(() => this.openAtCommit(reference));
+	}
+
+	// 引用项的网页永久链接，无法生成时提示并返回 undefined
+	async permalinkForReference(reference: ReferenceItem): Promise<string | undefined> {
+		return this.guarded(() => this.referencePermalink(reference));
+	}
+
+	// 编辑器中选中内容的网页永久链接，使用当前 HEAD；文件有未提交的修改时按选中的文本在 HEAD 中重新定位行号
+	async permalinkForSelection(document: vscode.TextDocument, selection: vscode.Selection): Promise<string | undefined> {
+		return this.guarded(() => this.selectionPermalink(document, selection));
+	}
+
+	// 读取 .git 目录出错（如对象文件损坏）时提示，不向调用方抛出
+	private async guarded<T>(run: () => Promise<T>): Promise<T | undefined> {
+		try {
+			return await run();
+		} catch (error) {
+			console.error('Failed to read git repository:', error);
+			vscode.window.showWarningMessage(`读取 git 仓库失败：${(error as Error).message}`);
+			return undefined;
+		}
+	}
+
+	private async openAtCommit(reference: ReferenceItem): Promise<void> {
+		const target = await this.target(reference, true);
+		if (typeof target === 'string') {
+			vscode.window.showWarningMessage(target);
+			return;
+		}
+		const content = await readFileAtCommit(target.repository, target.commit, target.gitPath);
+		if (!content) {
+			vscode.window.showWarningMessage(`本地仓库中找不到提交 ${target.commit.substring(0, 7)} 中的 ${target.gitPath}，该提交可能已被清理或在其他克隆中`);
+			return;
+		}
+
+		const uri = vscode.Uri.from({
+			scheme: GIT_REVISION_SCHEME,
+			path: `/${target.commit.substring(0, 7)}/${target.gitPath}`,
+			query: new URLSearchParams({ ...target.repository, commit: target.commit, path: target.gitPath }).toString()
+		});
+		const { lines } = snippetLines(content.toString('utf8'), reference.snippet, reference);
+		const document = await vscode.workspace.openTextDocument(uri);
+		const selection = lines && lines.start <= document.lineCount
+			? new vscode.Selection(lines.start - 1, 0, Math.min(lines.end, document.lineCount) - 1, Number.MAX_SAFE_INTEGER)
+			: undefined;
+		await vscode.window.showTextDocument(document, { preview: true, selection });
+	}
+
+	private async referencePermalink(reference: ReferenceItem): Promise<string | undefined> {
+		const target = await this.target(reference, false);
+		if (typeof target === 'string') {
+			vscode.window.showWarningMessage(target);
+			return undefined;
+		}
+		const content = reference.type === 'file' ? undefined : await readFileAtCommit(target.repository, target.commit, target.gitPath);
+		const located = content ? snippetLines(content.toString('utf8'), reference.snippet, reference) : undefined;
+		if (located && reference.snippet && !located.found) {
+			vscode.window.showWarningMessage('该提交中找不到引用的片段（添加时可能还未提交），链接使用记录的行号');
+		}
+		return this.permalink(target, located?.lines);
+	}
+
+	private async selectionPermalink(document: vscode.TextDocument, selection: vscode.Selection): Promise<string | undefined> {
+		const target = document.uri.scheme === 'file' ? await currentRevision(document.uri.fsPath) : undefined;
+		if (!target) {
+			vscode.window.showWarningMessage('当前文件不在 git 仓库中，或仓库还没有提交');
+			return undefined;
+		}
+		if (selection.isEmpty) {
+			return this.permalink(target, { start: selection.active.line + 1, end: selection.active.line + 1 });
+		}
+		const endLine = selection.end.character === 0 && selection.end.line > selection.start.line ? selection.end.line - 1 : selection.end.line;
+		const content = await readFileAtCommit(target.repository, target.commit, target.gitPath);
+		const located = content && content.toString('utf8') !== document.getText()
+			? snippetLines(content.toString('utf8'), document.getText(selection), { startLine: selection.start.line, endLine })
+			: undefined;
+		if (!content || located?.found === false) {
+			vscode.window.showWarningMessage('选中的内容还未提交，链接中的行号可能不准确');
+		}
+		return this.permalink(target, located?.lines ?? { start: selection.start.line + 1, end: endLine + 1 });
+	}
+
+	private async permalink(target: RevisionTarget, lines?: LineRange): Promise<string | undefined> {
+		const url = await readRemoteUrl(target.repository);
+		const remote = url ? parseRemoteUrl(url) : undefined;
+		if (!remote) {
+			vscode.window.showWarningMessage(url ? `无法从远程仓库地址生成网页链接：${url}` : '仓库没有配置远程仓库');
+			return undefined;
+		}
+		const forges = vscode.workspace.getConfiguration(CONFIG_SECTION).get<Record<string, string>>('permalink.forges', {});
+		return buildPermalink(remote, forgeStyleOf(remote.host, forges), target.commit, target.gitPath, lines);
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { ReferenceDataManager } from '../data/referenceDataManager';
+
+// 编辑备注用的虚拟文件协议，文件路径为 /<引用项id>/<标题>.md
+export const NOTE_SCHEME = 'file-ref-tags-note';
+
+// 把引用项的备注作为 Markdown 文件在编辑器中编辑，保存时写回引用项
+export class ReferenceNoteFileSystem implements vscode.FileSystemProvider, vscode.Disposable {
+	private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile = this._onDidChangeFile.event;
+	private readonly _onDidSaveNote = new vscode.EventEmitter<string>();
+	// 备注保存后触发，参数为引用项id
+	readonly onDidSaveNote = this._onDidSaveNote.event;
+	private readonly encoder = new TextEncoder();
+	private readonly decoder = new TextDecoder('utf-8');
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly dataManager: ReferenceDataManager) {
+		this.disposables.push(
+			vscode.workspace.registerFileSystemProvider(NOTE_SCHEME, this, { isCaseSensitive: true }),
+			// 在备注中输入 ](ref: 时补全其他引用项的id
+			vscode.languages.registerCompletionItemProvider({ scheme: NOTE_SCHEME }, {
+				provideCompletionItems: (document, position) => this.provideReferenceCompletions(document, position)
+			}, ':'),
+			// 撤销、切换存储位置等操作改变了备注时，让已打开的备注重新读取
+			dataManager.onDidChange(() => this._onDidChangeFile.fire(this.openNotes().map(uri => ({ type: vscode.FileChangeType.Changed, uri })))),
+			this._onDidChangeFile,
+			this._onDidSaveNote
+		);
+	}
+
+	// 在编辑器中打开引用项的备注
+	async open(id: string): Promise<void> {
+		const reference = this.dataManager.getReference(id);
+		if (!reference) {
+			vscode.window.showErrorMessage('引用项不存在');
+			return;
+		}
+		const name = reference.title.replace(/[\\/:*?"<>|\s]+/g, '-').substring(0, 40) || 'note';
+		const uri = vscode.Uri.from({ scheme: NOTE_SCHEME, path: `/${id}/${name}.md` });
+		await vscode.window.showTextDocument(uri, { preview: false });
+	}
+
+	private provideReferenceCompletions(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+		const prefix = document.lineAt(position.line).text.substring(0, position.character);
+		const match = /\]\(ref:([\w-]*)$/.exec(prefix);
+		if (!match) {
+			return [];
+		}
+		const range = new vscode.Range(position.translate(0, -match[1].length), position);
+		const currentId = this.referenceId(document.uri);
+		return this.dataManager.getReferences()
+			.filter(reference => reference.id !== currentId)
+			.map(reference => {
+				const item = new vscode.CompletionItem(reference.title, vscode.CompletionItemKind.Reference);
+				item.insertText = reference.id;
+				item.filterText = `${reference.id} ${reference.title}`;
+				item.detail = reference.id;
+				item.range = range;
+				return item;
+			});
+	}
+
+	private openNotes(): vscode.Uri[] {
+		return vscode.workspace.textDocuments.map(doc => doc.uri).filter(uri => uri.scheme === NOTE_SCHEME);
+	}
+
+	private referenceId(uri: vscode.Uri): string {
+		return uri.path.split('/')[1] || '';
+	}
+
+	private getReference(uri: vscode.Uri) {
+		const reference = this.dataManager.getReference(this.referenceId(uri));
+		if (!reference) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return reference;
+	}
+
+	stat(uri: vscode.Uri): vscode.FileStat {
+		const reference = this.getReference(uri);
+		return {
+			type: vscode.FileType.File,
+			ctime: Date.parse(reference.createdAt) || 0,
+			mtime: Date.parse(reference.updatedAt) || 0,
+			size: this.encoder.encode(reference.comment || '').byteLength
+		};
+	}
+
+	readFile(uri: vscode.Uri): Uint8Array {
+		return this.encoder.encode(this.getReference(uri).comment || '');
+	}
+
+	writeFile(uri: vscode.Uri, content: Uint8Array): void {
+		const reference = this.getReference(uri);
+		const comment = this.decoder.decode(content);
+		if (comment !== (reference.comment || '')) {
+			this.dataManager.updateReferenceComment(reference.id, comment);
+			this._onDidSaveNote.fire(reference.id);
+		}
+	}
+
+	watch(): vscode.Disposable {
+		return new vscode.Disposable(() => undefined);
+	}
+
+	readDirectory(): [string, vscode.FileType][] {
+		return [];
+	}
+
+	createDirectory(uri: vscode.Uri): void {
+		throw vscode.FileSystemError.NoPermissions(uri);
+	}
+
+	delete(uri: vscode.Uri): void {
+		throw vscode.FileSystemError.NoPermissions(uri);
+	}
+
+	rename(uri: vscode.Uri): void {
+		throw vscode.FileSystemError.NoPermissions(uri);
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,120 @@
+import { escapeHtml } from '../link/linkFormat';
+
+// 引用项备注的 Markdown 渲染。先转义全部 HTML，只支持备注中常用的语法，
+// 链接只保留 http(s)、mailto、深度链接和指向其他引用项的 ref:<id>
+
+// 指向其他引用项的链接前缀，例如 [相关实现](ref:ref-123)
+export const REFERENCE_LINK_PREFIX = 'ref:';
+
+// 允许的外部链接协议
+const SAFE_URL = /^(https?:|mailto:|[a-z][a-z0-9+.-]*:\/\/lirentech\.file-ref-tags(?:\/|\?|$))/i;
+
+// 渲染单个链接，不允许的协议只保留文字
+function renderLink(label: string, url: string): string {
+	if (url.startsWith(REFERENCE_LINK_PREFIX)) {
+		const id = url.substring(REFERENCE_LINK_PREFIX.length);
+		return /^[\w-]+$/.test(id)
+			? `<a href="#" class="note-ref" data-ref-id="${id}">${label}</a>`
+			: label;
+	}
+	return SAFE_URL.test(url) ? `<a href="${url}" title="${url}">${label}</a>` : label;
+}
+
+// 渲染行内语法：代码、链接、粗体、斜体、删除线。传入的文字尚未转义
+function renderInline(text: string): string {
+	// 先取出行内代码，避免其中的内容被当作其他语法
+	const codes: string[] = [];
+	let html = escapeHtml(text).replace(/`([^`]+)`/g, (_match, code: string) => {
+		codes.push(code);
+		return `\u0000${codes.length - 1}\u0000`;
+	});
+	html = html
+		// 地址中可以有成对的括号，整个链接（包括不允许的地址）一起替换，不会留下多余的括号
+		.replace(/\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g, (_match, label: string, url: string) => renderLink(label, url))
+		.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+		.replace(/__([^_]+)__/g, '<strong>$1</strong>')
+		.replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+		.replace(/~~([^~]+)~~/g, '<del>$1</del>');
+	return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => `<code>${codes[Number(index)]}</code>`);
+}
+
+// 将备注渲染为可以直接插入面板的 HTML
+export function renderNoteMarkdown(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const blocks: string[] = [];
+	let paragraph: string[] = [];
+	let quote: string[] = [];
+	let list: { ordered: boolean; items: string[] } | undefined;
+
+	const flush = () => {
+		if (paragraph.length > 0) {
+			blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+			paragraph = [];
+		}
+		if (quote.length > 0) {
+			blocks.push(`<blockquote>${quote.map(renderInline).join('<br>')}</blockquote>`);
+			quote = [];
+		}
+		if (list) {
+			const tag = list.ordered ? 'ol' : 'ul';
+			blocks.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+			list = undefined;
+		}
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+
+		// 围栏代码块，没有结束标记时到备注末尾为止
+		const fence = /^\s*(```|~~~)/.exec(line);
+		if (fence) {
+			flush();
+			const code: string[] = [];
+			while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+				code.push(lines[i]);
+			}
+			blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+			continue;
+		}
+
+		if (!line.trim()) {
+			flush();
+			continue;
+		}
+
+		const heading = /^\s*(#{1,6})\s+(.*)$/.exec(line);
+		if (heading) {
+			flush();
+			const level = heading[1].length;
+			blocks.push(`<h${level}>${renderInline(heading[2].trim())}</h${level}>`);
+			continue;
+		}
+
+		const quoted = /^\s*>\s?(.*)$/.exec(line);
+		if (quoted) {
+			if (quote.length === 0) {
+				flush();
+			}
+			quote.push(quoted[1]);
+			continue;
+		}
+
+		const item = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+		if (item) {
+			const ordered = /\d/.test(item[1]);
+			if (!list || list.ordered !== ordered) {
+				flush();
+				list = { ordered, items: [] };
+			}
+			list.items.push(item[2]);
+			continue;
+		}
+
+		if (paragraph.length === 0) {
+			flush();
+		}
+		paragraph.push(line.trim());
+	}
+	flush();
+	return blocks.join('\n');
+}
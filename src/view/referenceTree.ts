@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { ReferenceItem } from '../types/referenct';
+import { ReferenceDataManager } from '../data/referenceDataManager';
+import { formatSymbolPath } from '../search/symbolPath';
+
+// 原生树视图的id，与面板（webview）二选一显示，由 fileRefTags.view 配置决定
+export const TREE_VIEW_ID = 'file-ref-tags.tree-view';
+
+// 拖放时在 DataTransfer 中传递引用项id的类型
+const TREE_MIME_TYPE = `application/vnd.code.tree.${TREE_VIEW_ID.toLowerCase()}`;
+
+// 各类型引用项的图标
+const TYPE_ICONS: Record<ReferenceItem['type'], string> = {
+	'file': 'file',
+	'file-snippet': 'code',
+	'global-snippet': 'search',
+	'symbol': 'symbol-method',
+	'comment': 'comment',
+	'group': 'folder'
+};
+
+// 用原生树视图显示当前看板的引用项，支持键盘操作、右键菜单和拖放排序
+export class ReferenceTreeProvider implements vscode.TreeDataProvider<ReferenceItem>, vscode.TreeDragAndDropController<ReferenceItem>, vscode.Disposable {
+	private readonly _onDidChangeTreeData = new vscode.EventEmitter<ReferenceItem | undefined>();
+	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+	readonly dragMimeTypes = [TREE_MIME_TYPE];
+	readonly dropMimeTypes = [TREE_MIME_TYPE];
+	readonly treeView: vscode.TreeView<ReferenceItem>;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly dataManager: ReferenceDataManager) {
+		this.treeView = vscode.window.createTreeView(TREE_VIEW_ID, {
+			treeDataProvider: this,
+			dragAndDropController: this,
+			canSelectMany: true,
+			showCollapseAll: true
+		});
+		this.disposables.push(
+			this.treeView,
+			this._onDidChangeTreeData,
+			dataManager.onDidChange(() => this.refresh()),
+			// 树视图自己保留展开状态，不需要写入存储文件和刷新整个树，只记下状态供下次加载时使用
+			this.treeView.onDidExpandElement(e => dataManager.setGroupCollapsed(e.element.id, false, false)),
+			this.treeView.onDidCollapseElement(e => dataManager.setGroupCollapsed(e.element.id, true, false))
+		);
+		this.updateViewInfo();
+	}
+
+	refresh(): void {
+		this.updateViewInfo();
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	// 视图标题旁显示当前看板，列表为空时显示提示
+	private updateViewInfo(): void {
+		this.treeView.description = this.dataManager.getActiveBoard().name;
+		this.treeView.message = this.dataManager.getReferences().length === 0
+			? '还没有引用项，可以在编辑器右键菜单的 FileRefTags 中添加'
+			: undefined;
+	}
+
+	// 命令的目标：菜单传入的引用项，键盘快捷键调用时为当前选中项
+	resolveTargets(item?: ReferenceItem, items?: ReferenceItem[]): ReferenceItem[] {
+		if (items && items.length > 0) {
+			return items;
+		}
+		return item ? [item] : [...this.treeView.selection];
+	}
+
+	getTreeItem(reference: ReferenceItem): vscode.TreeItem {
+		const isGroup = reference.type === 'group';
+		const item = new vscode.TreeItem(
+			reference.title,
+			isGroup
+				? (reference.collapsed ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded)
+				: vscode.TreeItemCollapsibleState.None
+		);
+		item.id = reference.id;
+		item.iconPath = reference.orphaned
+			? new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+			: new vscode.ThemeIcon(TYPE_ICONS[reference.type]);
+		item.description = (reference.tags || []).map(tag => `#${tag}`).join(' ')
+			|| (reference.filePath ? vscode.workspace.asRelativePath(reference.filePath) : undefined);
+		item.tooltip = this.tooltip(reference);
+		// 菜单按 viewItem 显示：reference.<类型>，分组为 group
+		item.contextValue = isGroup ? 'group' : `reference.${reference.type}`;
+		if (!isGroup && reference.type !== 'comment') {
+			item.command = { command: 'file-ref-tags.tree.jump', title: '跳转', arguments: [reference] };
+		}
+		item.accessibilityInformation = { label: `${reference.title}，${isGroup ? '分组' : '引用项'}` };
+		return item;
+	}
+
+	private tooltip(reference: ReferenceItem): vscode.MarkdownString {
+		const markdown = new vscode.MarkdownString();
+		markdown.appendMarkdown(`**${reference.title.replace(/[\\`*_[\]<>]/g, '\\$&')}**`);
+		if (reference.filePath) {
+			markdown.appendMarkdown('\n\n');
+			markdown.appendText(vscode.workspace.asRelativePath(reference.filePath));
+		}
+		if (reference.symbolPath) {
+			markdown.appendMarkdown('\n\n符号：');
+			markdown.appendText(formatSymbolPath(reference.symbolPath));
+		}
+		if (reference.gitCommit) {
+			markdown.appendMarkdown(`\n\n记录于提交 \`${reference.gitCommit.substring(0, 7)}\``);
+		}
+		if (reference.orphaned) {
+			markdown.appendMarkdown('\n\n文件已被删除');
+		}
+		if (reference.snippet) {
+			markdown.appendCodeblock(reference.snippet);
+		}
+		if (reference.comment) {
+			markdown.appendMarkdown('\n\n---\n\n');
+			markdown.appendText(reference.comment);
+		}
+		return markdown;
+	}
+
+	getChildren(element?: ReferenceItem): ReferenceItem[] {
+		const references = this.dataManager.getReferences();
+		const ids = new Set(references.map(r => r.id));
+		// 上级分组不存在时显示在顶层，与面板一致
+		return references.filter(r => (r.parentId && ids.has(r.parentId) ? r.parentId : undefined) === element?.id);
+	}
+
+	getParent(element: ReferenceItem): ReferenceItem | undefined {
+		return element.parentId ? this.dataManager.getReferences().find(r => r.id === element.parentId) : undefined;
+	}
+
+	handleDrag(source: readonly ReferenceItem[], dataTransfer: vscode.DataTransfer): void {
+		dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(source.map(r => r.id)));
+	}
+
+	// 放到分组上时移入分组末尾，放到引用项上时移到该项之前，放到空白处时移到顶层末尾
+	async handleDrop(target: ReferenceItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+		const ids: unknown = dataTransfer.get(TREE_MIME_TYPE)?.value;
+		if (!Array.isArray(ids)) {
+			return;
+		}
+		const parentId = target?.type === 'group' ? target.id : target?.parentId;
+		const beforeId = target && target.type !== 'group' ? target.id : undefined;
+		for (const id of ids) {
+			this.dataManager.moveToGroup(id, parentId, beforeId);
+		}
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+	}
+}
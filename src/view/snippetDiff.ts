@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ReferenceItem } from '../types/referenct';
+import { getRelocationThreshold, ReferenceDataManager } from '../data/referenceDataManager';
+import { referenceUri } from '../data/referenceUri';
+import { locateSnippet } from '../search/relocate';
+
+// 对比编辑器两侧的只读文档，路径为 /<引用项id>/<文件名>，查询部分区分记录的片段和当前内容
+export const SNIPPET_DIFF_SCHEME = 'file-ref-tags-snippet';
+
+// 一次对比：引用项和文件中与之对应的当前内容
+export interface SnippetComparison {
+	reference: ReferenceItem;
+	document: vscode.TextDocument;
+	selection: vscode.Selection;
+	text: string;
+	// 当前内容是按记录的行号取出的，而不是找到的相似片段
+	fromLines: boolean;
+}
+
+// 用 VS Code 的对比编辑器显示引用记录的片段和文件中的当前内容
+export class SnippetDiffProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+	private comparisons = new Map<string, SnippetComparison>();
+	private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+	readonly onDidChange = this._onDidChange.event;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly dataManager: ReferenceDataManager) {
+		this.disposables.push(
+			vscode.workspace.registerTextDocumentContentProvider(SNIPPET_DIFF_SCHEME, this),
+			this._onDidChange
+		);
+	}
+
+	// 打开对比编辑器，文件中找不到对应内容时提示并返回 undefined
+	async compare(id: string): Promise<SnippetComparison | undefined> {
+		const reference = this.dataManager.getReference(id);
+		const uri = reference && referenceUri(reference);
+		if (!reference?.snippet || !uri) {
+			vscode.window.showWarningMessage('只有代码片段引用可以对比');
+			return undefined;
+		}
+
+		let document: vscode.TextDocument;
+		try {
+			document = await vscode.workspace.openTextDocument(uri);
+		} catch (error) {
+			console.error('无法打开文件:', uri.toString(), error);
+			vscode.window.showErrorMessage(`无法打开文件：${reference.filePath}`);
+			return undefined;
+		}
+
+		const comparison = this.findCurrent(reference, document);
+		if (!comparison) {
+			vscode.window.showWarningMessage('文件中找不到与该引用对应的内容，也没有记录行号');
+			return undefined;
+		}
+		this.comparisons.set(id, comparison);
+
+		const name = path.posix.basename(uri.path);
+		const stored = vscode.Uri.from({ scheme: SNIPPET_DIFF_SCHEME, path: `/${id}/${name}`, query: 'stored' });
+		const current = stored.with({ query: 'current' });
+		this._onDidChange.fire(stored);
+		this._onDidChange.fire(current);
+		const title = `${reference.title}（记录的片段 ↔ ${comparison.fromLines ? '记录行号处的当前内容' : '当前内容'}）`;
+		await vscode.commands.executeCommand('vscode.diff', stored, current, title, { preview: true });
+		return comparison;
+	}
+
+	// 最相似的当前片段，找不到时取记录的行号范围
+	private findCurrent(reference: ReferenceItem, document: vscode.TextDocument): SnippetComparison | undefined {
+		const candidate = locateSnippet(document.getText(), reference.snippet!, reference, getRelocationThreshold());
+		if (candidate) {
+			const selection = new vscode.Selection(document.positionAt(candidate.start), document.positionAt(candidate.end));
+			return { reference, document, selection, text: candidate.text, fromLines: false };
+		}
+		if (reference.startLine === undefined || reference.startLine >= document.lineCount) {
+			return undefined;
+		}
+		const endLine = Math.min(reference.endLine ?? reference.startLine, document.lineCount - 1);
+		const selection = new vscode.Selection(reference.startLine, 0, endLine, document.lineAt(endLine).text.length);
+		return { reference, document, selection, text: document.getText(selection), fromLines: true };
+	}
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		const id = uri.path.split('/')[1] || '';
+		if (uri.query === 'stored') {
+			return this.dataManager.getReference(id)?.snippet || '';
+		}
+		return this.comparisons.get(id)?.text || '';
+	}
+
+	// 当前活动的对比编辑器对应的引用项id
+	activeComparisonId(): string | undefined {
+		const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+		if (input instanceof vscode.TabInputTextDiff && input.modified.scheme === SNIPPET_DIFF_SCHEME) {
+			return input.modified.path.split('/')[1];
+		}
+		return undefined;
+	}
+
+	// 结束对比：取出对比结果并关闭对应的对比编辑器
+	async finish(id: string): Promise<SnippetComparison | undefined> {
+		const comparison = this.comparisons.get(id);
+		this.comparisons.delete(id);
+		const tabs = vscode.window.tabGroups.all.flatMap(group => group.tabs).filter(tab =>
+			tab.input instanceof vscode.TabInputTextDiff
+			&& tab.input.modified.scheme === SNIPPET_DIFF_SCHEME
+			&& tab.input.modified.path.split('/')[1] === id
+		);
+		if (tabs.length > 0) {
+			await vscode.window.tabGroups.close(tabs);
+		}
+		return comparison;
+	}
+
+	dispose(): void {
+		this.disposables.forEach(d => d.dispose());
+		this.disposables = [];
+		this.comparisons.clear();
+	}
+}
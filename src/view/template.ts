@@ -22,9 +22,46 @@ export const TEMPLATE = `<!DOCTYPE html>
         }
         h1 {
             font-size: 12px;
-            margin: 0 0 8px 0;
+            margin: 0;
             font-weight: 400;
         }
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin: 0 0 8px 0;
+        }
+        .store-select {
+            background-color: #1e1e1e;
+            color: #d4d4d4;
+            border: 1px solid #3e3e42;
+            font-size: 10px;
+            padding: 1px 2px;
+        }
+        .store-select:focus {
+            outline: none;
+            border-color: #0e639c;
+        }
+        .board-bar {
+            display: flex;
+            gap: 4px;
+            margin: 0 0 8px 0;
+        }
+        .board-bar .store-select {
+            flex: 1;
+            min-width: 0;
+        }
+        .board-actions-btn {
+            background: none;
+            border: 1px solid #3e3e42;
+            color: #d4d4d4;
+            font-size: 10px;
+            padding: 0 6px;
+            cursor: pointer;
+        }
+        .board-actions-btn:hover {
+            background-color: #2a2d2e;
+        }
         .empty-state {
             text-align: center;
             padding: 32px 0;
@@ -57,6 +94,9 @@ export const TEMPLATE = `<!DOCTYPE html>
         .reference-item[data-type="global-snippet"] {
             background-color: rgba(74, 22, 140, 0.15);
         }
+        .reference-item[data-type="symbol"] {
+            background-color: rgba(156, 112, 0, 0.15);
+        }
         .reference-item[data-type="comment"] {
             background-color: rgba(0, 125, 74, 0.15);
         }
@@ -71,6 +111,112 @@ export const TEMPLATE = `<!DOCTYPE html>
         .reference-item.drag-over {
             border-top: 2px solid #0e639c;
         }
+        .reference-item.has-note {
+            flex-wrap: wrap;
+        }
+        .reference-item.has-note .reference-actions {
+            top: 11px;
+        }
+        .reference-item.flash {
+            outline-color: #cca700;
+        }
+        .reference-note {
+            flex-basis: 100%;
+            padding: 0 0 4px 4px;
+            font-size: 11px;
+            line-height: 16px;
+            color: #a0a0a0;
+            cursor: text;
+            user-select: text;
+            overflow-wrap: anywhere;
+        }
+        .reference-note p, .reference-note ul, .reference-note ol, .reference-note pre, .reference-note blockquote {
+            margin: 2px 0;
+        }
+        .reference-note h1, .reference-note h2, .reference-note h3, .reference-note h4, .reference-note h5, .reference-note h6 {
+            margin: 2px 0;
+            font-size: 12px;
+        }
+        .reference-note ul, .reference-note ol {
+            padding-left: 16px;
+        }
+        .reference-note blockquote {
+            padding-left: 6px;
+            border-left: 2px solid #3e3e42;
+        }
+        .reference-note pre {
+            padding: 2px 4px;
+            background-color: #1e1e1e;
+            white-space: pre-wrap;
+        }
+        .reference-note a {
+            color: #3794ff;
+        }
+        .search-input {
+            width: 100%;
+            margin: 0 0 6px 0;
+            padding: 3px 6px;
+            border: 1px solid #3e3e42;
+            background-color: #1e1e1e;
+            color: #d4d4d4;
+            font-size: 11px;
+            box-sizing: border-box;
+        }
+        .search-input:focus {
+            outline: none;
+            border-color: #0e639c;
+        }
+        .tag-chip {
+            flex-shrink: 0;
+            margin-left: 4px;
+            padding: 0 5px;
+            border-radius: 8px;
+            background-color: rgba(14, 99, 156, 0.35);
+            color: #d4d4d4;
+            font-size: 10px;
+            line-height: 14px;
+        }
+        .tag-chip:hover {
+            background-color: rgba(14, 99, 156, 0.6);
+        }
+        .reference-item:hover .tag-chip {
+            display: none;
+        }
+        .health-badge {
+            flex-shrink: 0;
+            margin-right: 4px;
+            width: 12px;
+            height: 12px;
+            line-height: 12px;
+            border-radius: 6px;
+            text-align: center;
+            font-size: 9px;
+            font-weight: 600;
+            color: #1e1e1e;
+            background-color: #f14c4c;
+        }
+        .health-badge[data-issue="drifted"] {
+            background-color: #cca700;
+        }
+        .reference-item.broken .reference-title {
+            text-decoration: line-through;
+            color: #a0a0a0;
+        }
+        .group-node {
+            margin: 0;
+        }
+        .group-children {
+            padding-left: 10px;
+        }
+        .reference-item[data-type="group"] {
+            background-color: rgba(255, 255, 255, 0.05);
+            font-weight: 500;
+        }
+        .group-toggle {
+            display: inline-block;
+            width: 12px;
+            color: #858585;
+        }
         .reference-title {
             font-size: 11px;
             font-weight: 400;
@@ -81,7 +227,7 @@ export const TEMPLATE = `<!DOCTYPE html>
             flex: 1;
         }
         .reference-item:hover .reference-title {
-            margin-right: 50px;
+            margin-right: 110px;
         }
         .reference-actions {
             position: absolute;
@@ -109,6 +255,19 @@ export const TEMPLATE = `<!DOCTYPE html>
             padding: 1px 5px;
             border-radius: 2px;
         }
+        .move-btn {
+            background: none;
+            border: none;
+            color: #858585;
+            cursor: pointer;
+            font-size: 12px;
+            padding: 1px 5px;
+            border-radius: 2px;
+        }
+        .move-btn:hover {
+            color: #0e639c;
+            background-color: rgba(14, 99, 156, 0.1);
+        }
         .edit-btn:hover {
             color: #0e639c;
             background-color: rgba(14, 99, 156, 0.1);
@@ -219,6 +378,32 @@ export const TEMPLATE = `<!DOCTYPE html>
         .btn-secondary:hover {
             background-color: #4e4e53;
         }
+        .trash-section {
+            margin-top: 8px;
+            color: #858585;
+            font-size: 11px;
+        }
+        .trash-section summary {
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            gap: 4px;
+        }
+        .trash-section summary span {
+            flex: 1;
+        }
+        .trash-item {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 2px 4px;
+        }
+        .trash-title {
+            flex: 1;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
         .actions-bar {
             margin-top: 8px;
             display: flex;
@@ -240,12 +425,30 @@ export const TEMPLATE = `<!DOCTYPE html>
 </head>
 <body>
     <div class="container">
-        <h1>File References</h1>
+        <div class="header">
+            <h1>File References</h1>
+            <select id="store-select" class="store-select" title="当前存储位置">
+                <option value="global">全局</option>
+                <option value="workspace">工作区</option>
+                <option value="shared">团队共享</option>
+            </select>
+        </div>
+        <div class="board-bar">
+            <select id="board-select" class="store-select" title="当前看板"></select>
+            <button id="board-actions-btn" class="board-actions-btn" title="看板操作">⋯</button>
+        </div>
+        <input type="text" id="search-input" class="search-input" placeholder="搜索... 支持 type:file tag:xxx">
         <div id="empty-state" class="empty-state">
             <p>No references yet. Add your first reference!</p>
         </div>
         <ul id="references-list" class="references-list"></ul>
+        <details id="trash-section" class="trash-section" style="display: none;">
+            <summary><span id="trash-summary">回收站</span><button id="empty-trash-btn" class="delete-btn" title="清空回收站">清空</button></summary>
+            <ul id="trash-list" class="references-list"></ul>
+        </details>
         <div class="actions-bar">
+            <button id="add-group-btn" class="action-btn">New Group</button>
+            <button id="verify-btn" class="action-btn">Verify</button>
             <button id="show-storage-btn" class="action-btn">Show Storage Location</button>
         </div>
     </div>
@@ -271,8 +474,16 @@ export const TEMPLATE = `<!DOCTYPE html>
     <script>
         const vscode = acquireVsCodeApi();
         let references = [];
+        // 检查发现的问题，按引用项id索引
+        let health = {};
+        // 渲染好的备注 HTML，按引用项id索引；备注显示为悬停提示时为空
+        let notes = {};
+        let noteDisplay = 'expanded';
         let draggedItem = null;
         let currentEditingId = null;
+        // 搜索框命中的引用项id，为null时不过滤
+        let filterIds = null;
+        let currentQuery = '';
 
         // 初始化
         vscode.postMessage({ command: 'getReferences' });
@@ -285,6 +496,127 @@ export const TEMPLATE = `<!DOCTYPE html>
             });
         }
 
+        // 添加新建分组按钮事件
+        const addGroupBtn = document.getElementById('add-group-btn');
+        addGroupBtn.addEventListener('click', () => {
+            vscode.postMessage({ command: 'addGroup' });
+        });
+
+        // 搜索框：由扩展端执行与"跳转到引用"命令相同的搜索
+        const searchInput = document.getElementById('search-input');
+        searchInput.addEventListener('input', () => {
+            applyFilter(searchInput.value);
+        });
+        searchInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                searchInput.value = '';
+                applyFilter('');
+            }
+        });
+
+        function applyFilter(query) {
+            currentQuery = query.trim();
+            if (!currentQuery) {
+                filterIds = null;
+                renderReferences();
+                return;
+            }
+            vscode.postMessage({ command: 'filterReferences', query: currentQuery });
+        }
+
+        // 添加检查引用按钮事件
+        const verifyBtn = document.getElementById('verify-btn');
+        verifyBtn.addEventListener('click', () => {
+            vscode.postMessage({ command: 'verifyReferences' });
+        });
+
+        // 切换存储位置
+        const storeSelect = document.getElementById('store-select');
+        storeSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: 'switchStore', store: storeSelect.value });
+        });
+
+        // 更新存储位置选择器
+        function renderStore(store, availableStores) {
+            Array.from(storeSelect.options).forEach(option => {
+                option.disabled = !availableStores.includes(option.value);
+            });
+            storeSelect.value = store;
+        }
+
+        // 切换看板
+        const boardSelect = document.getElementById('board-select');
+        boardSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: 'switchBoard', boardId: boardSelect.value });
+        });
+
+        // 看板操作：新建、重命名、复制、归档、删除
+        document.getElementById('board-actions-btn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'boardActions' });
+        });
+
+        // 更新看板选择器，已归档的看板单独分组
+        function renderBoards(boards, activeBoard) {
+            boardSelect.innerHTML = '';
+            const archivedGroup = document.createElement('optgroup');
+            archivedGroup.label = '已归档';
+            (boards || []).forEach(board => {
+                const option = document.createElement('option');
+                option.value = board.id;
+                option.textContent = board.name;
+                (board.archived ? archivedGroup : boardSelect).appendChild(option);
+            });
+            if (archivedGroup.children.length > 0) {
+                boardSelect.appendChild(archivedGroup);
+            }
+            boardSelect.value = activeBoard;
+        }
+
+        // 清空回收站
+        document.getElementById('empty-trash-btn').addEventListener('click', (e) => {
+            e.preventDefault();
+            vscode.postMessage({ command: 'emptyTrash' });
+        });
+
+        // 更新回收站，为空时隐藏
+        function renderTrash(trash) {
+            const section = document.getElementById('trash-section');
+            const list = document.getElementById('trash-list');
+            trash = trash || [];
+            section.style.display = trash.length > 0 ? 'block' : 'none';
+            document.getElementById('trash-summary').textContent = '回收站 (' + trash.length + ')';
+            list.innerHTML = '';
+            trash.forEach(entry => {
+                const li = document.createElement('li');
+                li.className = 'trash-item';
+                li.title = '删除于 ' + new Date(entry.deletedAt).toLocaleString();
+
+                const title = document.createElement('span');
+                title.className = 'trash-title';
+                title.textContent = entry.count > 1 ? entry.title + '（' + entry.count + ' 项）' : entry.title;
+                li.appendChild(title);
+
+                const restoreBtn = document.createElement('button');
+                restoreBtn.className = 'edit-btn';
+                restoreBtn.textContent = '恢复';
+                restoreBtn.onclick = function() {
+                    vscode.postMessage({ command: 'restoreTrash', id: entry.id });
+                };
+                li.appendChild(restoreBtn);
+
+                const deleteBtn = document.createElement('button');
+                deleteBtn.className = 'delete-btn';
+                deleteBtn.textContent = '×';
+                deleteBtn.title = '永久删除';
+                deleteBtn.onclick = function() {
+                    vscode.postMessage({ command: 'deleteTrash', id: entry.id });
+                };
+                li.appendChild(deleteBtn);
+
+                list.appendChild(li);
+            });
+        }
+
         // 初始化弹窗事件
         const modal = document.getElementById('edit-modal');
         const closeModal = document.getElementById('close-modal');
@@ -347,7 +679,24 @@ export const TEMPLATE = `<!DOCTYPE html>
             switch (message.command) {
                 case 'updateReferences':
                     references = message.references;
-                    renderReferences();
+                    health = message.health || {};
+                    notes = message.notes || {};
+                    noteDisplay = message.noteDisplay || 'expanded';
+                    renderStore(message.store, message.availableStores);
+                    renderBoards(message.boards, message.activeBoard);
+                    renderTrash(message.trash);
+                    if (currentQuery) {
+                        applyFilter(currentQuery);
+                    } else {
+                        renderReferences();
+                    }
+                    break;
+                case 'filterResult':
+                    // 忽略过期的搜索结果
+                    if (message.query === currentQuery) {
+                        filterIds = new Set(message.ids);
+                        renderReferences();
+                    }
                     break;
             }
         });
@@ -367,63 +716,286 @@ export const TEMPLATE = `<!DOCTYPE html>
             emptyState.style.display = 'none';
 
             list.innerHTML = '';
+            renderChildren(list, '', getVisibleIds());
+        }
 
-            references.forEach(reference => {
-                const li = document.createElement('li');
-                li.className = 'reference-item';
-                li.draggable = true;
-                li.dataset.id = reference.id;
-                li.dataset.type = reference.type;
-
-                // 设置拖拽事件
-                li.addEventListener('dragstart', handleDragStart);
-                li.addEventListener('dragover', handleDragOver);
-                li.addEventListener('dragenter', handleDragEnter);
-                li.addEventListener('dragleave', handleDragLeave);
-                li.addEventListener('drop', handleDrop);
-                li.addEventListener('dragend', handleDragEnd);
-
-                // 点击跳转
-                li.addEventListener('click', (e) => {
-                    if (!e.target.classList.contains('delete-btn') && !e.target.classList.contains('edit-btn')) {
-                        vscode.postMessage({ command: 'jumpToReference', id: reference.id });
+        // 计算搜索时需要显示的项：命中的项及其所有上级分组
+        function getVisibleIds() {
+            if (!filterIds) {
+                return null;
+            }
+            const visible = new Set();
+            const byId = new Map(references.map(reference => [reference.id, reference]));
+            filterIds.forEach(id => {
+                let current = byId.get(id);
+                while (current && !visible.has(current.id)) {
+                    visible.add(current.id);
+                    current = current.parentId ? byId.get(current.parentId) : undefined;
+                }
+            });
+            return visible;
+        }
+
+        // 渲染某个分组（空字符串表示顶层）下的子项
+        function renderChildren(list, parentId, visibleIds) {
+            const ids = new Set(references.map(reference => reference.id));
+            references
+                .filter(reference => (reference.parentId && ids.has(reference.parentId) ? reference.parentId : '') === parentId)
+                .filter(reference => !visibleIds || visibleIds.has(reference.id))
+                .forEach(reference => {
+                    if (reference.type === 'group') {
+                        list.appendChild(createGroupNode(reference, visibleIds));
+                    } else {
+                        list.appendChild(createReferenceItem(reference, 'li'));
                     }
                 });
+        }
+
+        // 创建分组节点：标题行 + 子列表
+        function createGroupNode(group, visibleIds) {
+            const li = document.createElement('li');
+            li.className = 'group-node';
+
+            const header = createReferenceItem(group, 'div');
+            const toggle = document.createElement('span');
+            toggle.className = 'group-toggle';
+            toggle.textContent = group.collapsed ? '▸' : '▾';
+            header.insertBefore(toggle, header.firstChild);
+            li.appendChild(header);
+
+            const children = document.createElement('ul');
+            children.className = 'references-list group-children';
+            children.dataset.parentId = group.id;
+            // 搜索时展开所有包含命中项的分组
+            if (group.collapsed && !visibleIds) {
+                children.style.display = 'none';
+            }
+            renderChildren(children, group.id, visibleIds);
+            li.appendChild(children);
+            return li;
+        }
+
+        // 创建引用项（或分组标题行）
+        function createReferenceItem(reference, tagName) {
+            const li = document.createElement(tagName);
+            li.className = 'reference-item';
+            li.draggable = true;
+            li.dataset.id = reference.id;
+            li.dataset.type = reference.type;
+            li.dataset.parentId = reference.parentId || '';
+
+            // 设置拖拽事件
+            li.addEventListener('dragstart', handleDragStart);
+            li.addEventListener('dragover', handleDragOver);
+            li.addEventListener('dragenter', handleDragEnter);
+            li.addEventListener('dragleave', handleDragLeave);
+            li.addEventListener('drop', handleDrop);
+            li.addEventListener('dragend', handleDragEnd);
+
+            // 点击跳转，分组则切换折叠状态
+            li.addEventListener('click', (e) => {
+                if (e.target.tagName === 'BUTTON') {
+                    return;
+                }
+                if (reference.type === 'group') {
+                    reference.collapsed = !reference.collapsed;
+                    vscode.postMessage({ command: 'toggleGroup', id: reference.id, collapsed: reference.collapsed });
+                    renderReferences();
+                } else {
+                    vscode.postMessage({ command: 'jumpToReference', id: reference.id });
+                }
+            });
+
+            // 使用DOM API创建元素，避免模板字面量语法错误
+            const titleH3 = document.createElement('h3');
+            titleH3.className = 'reference-title';
+            titleH3.textContent = reference.title;
+
+            // 有问题的引用项显示标记，悬停查看原因
+            const issue = health[reference.id]
+                || (reference.orphaned ? { issue: 'missing-file', message: '文件已被删除：' + reference.filePath } : null);
+            let badge = null;
+            if (issue) {
+                badge = document.createElement('span');
+                badge.className = 'health-badge';
+                badge.dataset.issue = issue.issue;
+                badge.textContent = '!';
+                li.title = issue.message;
+                if (issue.issue !== 'drifted') {
+                    li.classList.add('broken');
+                }
+            }
 
-                // 使用DOM API创建元素，避免模板字面量语法错误
-                const titleH3 = document.createElement('h3');
-                titleH3.className = 'reference-title';
-                titleH3.textContent = reference.title;
-
-                // 创建操作栏
-                const actionsDiv = document.createElement('div');
-                actionsDiv.className = 'reference-actions';
-
-                // 编辑按钮
-                const editBtn = document.createElement('button');
-                editBtn.className = 'edit-btn';
-                editBtn.textContent = '编辑';
-                editBtn.onclick = function() {
-                    showModal(reference.id, reference.title);
+            // 标签，点击按标签过滤
+            const tagChips = (reference.tags || []).map(tag => {
+                const chip = document.createElement('span');
+                chip.className = 'tag-chip';
+                chip.textContent = tag;
+                chip.onclick = function(e) {
+                    e.stopPropagation();
+                    searchInput.value = 'tag:' + tag;
+                    applyFilter(searchInput.value);
                 };
+                return chip;
+            });
 
-                // 删除按钮
-                const deleteBtn = document.createElement('button');
-                deleteBtn.className = 'delete-btn';
-                deleteBtn.textContent = '×';
-                deleteBtn.onclick = function() {
-                    vscode.postMessage({ command: 'deleteReference', id: reference.id });
+            // 创建操作栏
+            const actionsDiv = document.createElement('div');
+            actionsDiv.className = 'reference-actions';
+
+            // 新建子分组按钮
+            if (reference.type === 'group') {
+                const addGroupBtn = document.createElement('button');
+                addGroupBtn.className = 'edit-btn';
+                addGroupBtn.textContent = '+';
+                addGroupBtn.title = '新建子分组';
+                addGroupBtn.onclick = function() {
+                    vscode.postMessage({ command: 'addGroup', parentId: reference.id });
                 };
+                actionsDiv.appendChild(addGroupBtn);
+            }
 
-                // 组装元素
-                actionsDiv.appendChild(editBtn);
-                actionsDiv.appendChild(deleteBtn);
-                
-                li.appendChild(titleH3);
-                li.appendChild(actionsDiv);
+            // 编辑备注按钮
+            const noteBtn = document.createElement('button');
+            noteBtn.className = 'edit-btn';
+            noteBtn.textContent = '备注';
+            noteBtn.onclick = function() {
+                vscode.postMessage({ command: 'editNote', id: reference.id });
+            };
 
-                list.appendChild(li);
+            // 编辑标签按钮
+            const tagBtn = document.createElement('button');
+            tagBtn.className = 'edit-btn';
+            tagBtn.textContent = '标签';
+            tagBtn.onclick = function() {
+                vscode.postMessage({ command: 'editTags', id: reference.id });
+            };
+
+            // 编辑按钮
+            const editBtn = document.createElement('button');
+            editBtn.className = 'edit-btn';
+            editBtn.textContent = '编辑';
+            editBtn.onclick = function() {
+                showModal(reference.id, reference.title);
+            };
+
+            // 移动到其他存储位置按钮
+            const moveBtn = document.createElement('button');
+            moveBtn.className = 'move-btn';
+            moveBtn.textContent = '移动';
+            moveBtn.onclick = function() {
+                vscode.postMessage({ command: 'moveReference', id: reference.id });
+            };
+
+            // 删除按钮
+            const deleteBtn = document.createElement('button');
+            deleteBtn.className = 'delete-btn';
+            deleteBtn.textContent = '×';
+            deleteBtn.onclick = function() {
+                vscode.postMessage({ command: 'deleteReference', id: reference.id });
+            };
+
+            // 修复和重新锚定按钮，仅有问题的引用项显示
+            if (issue) {
+                const repairBtn = document.createElement('button');
+                repairBtn.className = 'edit-btn';
+                repairBtn.textContent = '修复';
+                repairBtn.onclick = function() {
+                    vscode.postMessage({ command: 'repairReference', id: reference.id });
+                };
+                actionsDiv.appendChild(repairBtn);
+
+                const reanchorBtn = document.createElement('button');
+                reanchorBtn.className = 'edit-btn';
+                reanchorBtn.textContent = '重新锚定';
+                reanchorBtn.title = '锚定到当前编辑器中选中的内容';
+                reanchorBtn.onclick = function() {
+                    vscode.postMessage({ command: 'reanchorReference', id: reference.id });
+                };
+                actionsDiv.appendChild(reanchorBtn);
+
+                // 片段已变化或找不到时，对比记录的片段和当前内容
+                if (issue.issue === 'drifted' || issue.issue === 'missing-snippet') {
+                    const compareBtn = document.createElement('button');
+                    compareBtn.className = 'edit-btn';
+                    compareBtn.textContent = '对比';
+                    compareBtn.title = '对比记录的片段和文件中的当前内容';
+                    compareBtn.onclick = function() {
+                        vscode.postMessage({ command: 'compareSnippet', id: reference.id });
+                    };
+                    actionsDiv.appendChild(compareBtn);
+                }
+
+                // 查看添加引用时所在提交中的内容
+                if (reference.gitCommit) {
+                    const historyBtn = document.createElement('button');
+                    historyBtn.className = 'edit-btn';
+                    historyBtn.textContent = '历史';
+                    historyBtn.title = '打开记录时提交 ' + reference.gitCommit.substring(0, 7) + ' 中的内容';
+                    historyBtn.onclick = function() {
+                        vscode.postMessage({ command: 'openAtRecordedCommit', id: reference.id });
+                    };
+                    actionsDiv.appendChild(historyBtn);
+                }
+            }
+
+            // 组装元素
+            actionsDiv.appendChild(editBtn);
+            actionsDiv.appendChild(noteBtn);
+            if (reference.type !== 'group') {
+                actionsDiv.appendChild(tagBtn);
+            }
+            actionsDiv.appendChild(moveBtn);
+            actionsDiv.appendChild(deleteBtn);
+
+            if (badge) {
+                li.appendChild(badge);
+            }
+            li.appendChild(titleH3);
+            tagChips.forEach(chip => li.appendChild(chip));
+            li.appendChild(actionsDiv);
+            appendNote(li, reference);
+            return li;
+        }
+
+        // 显示备注：展开在引用项下方，或作为悬停提示
+        function appendNote(li, reference) {
+            if (!reference.comment) {
+                return;
+            }
+            if (noteDisplay === 'tooltip' || !notes[reference.id]) {
+                li.title = li.title ? li.title + '\\n\\n' + reference.comment : reference.comment;
+                return;
+            }
+            const noteDiv = document.createElement('div');
+            noteDiv.className = 'reference-note';
+            // 备注 HTML 由扩展渲染，其中的内容均已转义
+            noteDiv.innerHTML = notes[reference.id];
+            noteDiv.addEventListener('click', (e) => {
+                const link = e.target.closest('a');
+                if (!link) {
+                    return;
+                }
+                e.stopPropagation();
+                if (link.dataset.refId) {
+                    e.preventDefault();
+                    revealReference(link.dataset.refId);
+                }
             });
+            li.classList.add('has-note');
+            li.appendChild(noteDiv);
+        }
+
+        // 在面板中定位备注里链接到的引用项，不在当前列表中时直接跳转
+        function revealReference(id) {
+            const target = document.querySelector('#references-list .reference-item[data-id="' + CSS.escape(id) + '"]');
+            if (!target) {
+                vscode.postMessage({ command: 'jumpToReference', id });
+                return;
+            }
+            target.scrollIntoView({ block: 'nearest' });
+            target.classList.add('flash');
+            setTimeout(() => target.classList.remove('flash'), 1500);
         }
 
         // 删除引用
@@ -433,6 +1005,7 @@ export const TEMPLATE = `<!DOCTYPE html>
 
         // 拖拽事件处理
         function handleDragStart(e) {
+            e.stopPropagation();
             draggedItem = this;
             this.classList.add('dragging');
         }
@@ -452,24 +1025,31 @@ export const TEMPLATE = `<!DOCTYPE html>
             this.classList.remove('drag-over');
         }
 
+        // 放到分组标题行的上部表示放在分组之前，其余位置表示放入分组
+        function isDropIntoGroup(target, e) {
+            if (target.dataset.type !== 'group') {
+                return false;
+            }
+            const rect = target.getBoundingClientRect();
+            return e.clientY - rect.top > rect.height / 3;
+        }
+
         function handleDrop(e) {
             e.stopPropagation();
+            e.preventDefault();
             this.classList.remove('drag-over');
 
-            if (draggedItem !== this) {
-                const list = this.parentNode;
-                const draggedIndex = Array.from(list.children).indexOf(draggedItem);
-                const dropIndex = Array.from(list.children).indexOf(this);
-
-                if (draggedIndex < dropIndex) {
-                    list.insertBefore(draggedItem, this.nextSibling);
+            if (draggedItem && draggedItem !== this) {
+                if (isDropIntoGroup(this, e)) {
+                    vscode.postMessage({ command: 'moveItem', id: draggedItem.dataset.id, parentId: this.dataset.id });
                 } else {
-                    list.insertBefore(draggedItem, this);
+                    vscode.postMessage({
+                        command: 'moveItem',
+                        id: draggedItem.dataset.id,
+                        parentId: this.dataset.parentId,
+                        beforeId: this.dataset.id
+                    });
                 }
-
-                // 更新顺序
-                const newOrder = Array.from(list.children).map(item => item.dataset.id);
-                vscode.postMessage({ command: 'updateOrder', order: newOrder });
             }
 
             return false;
@@ -479,10 +1059,20 @@ export const TEMPLATE = `<!DOCTYPE html>
             this.classList.remove('dragging');
             draggedItem = null;
             // 移除所有drag-over类
-            Array.from(this.parentNode.children).forEach(item => {
+            document.querySelectorAll('.drag-over').forEach(item => {
                 item.classList.remove('drag-over');
             });
         }
+
+        // 放到列表空白处时移动到顶层末尾
+        const rootList = document.getElementById('references-list');
+        rootList.addEventListener('dragover', handleDragOver);
+        rootList.addEventListener('drop', (e) => {
+            e.preventDefault();
+            if (draggedItem) {
+                vscode.postMessage({ command: 'moveItem', id: draggedItem.dataset.id, parentId: '' });
+            }
+        });
     </script>
 </body>
 </html>`;